@@ -0,0 +1,237 @@
+/**
+ * Unit tests for service-level ACL rules.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+    callableDomains,
+    confirmationReason,
+    evaluateServiceAccess,
+    explainEntityAccess,
+    formatAccessExplanation,
+    isServiceCallable,
+    redactAttributes,
+    type ServiceACL,
+} from "./acl.js";
+
+const acl: ServiceACL = {
+    blockedEntities: ["lock.garage"],
+    writableDomains: ["light", "climate"],
+    serviceRules: [
+        { service: "lock.lock", effect: "allow" },
+        { service: "lock.unlock", effect: "deny", reason: "Unlocking needs a human" },
+        { service: "climate.set_temperature", entities: ["climate.living_*"], effect: "allow" },
+        { service: "light.*", entities: ["light.nursery"], effect: "deny" },
+    ],
+};
+
+describe("evaluateServiceAccess", () => {
+    it("always denies blocked entities", () => {
+        const d = evaluateServiceAccess(acl, "lock", "lock", "lock.garage");
+        expect(d.allowed).toBe(false);
+        expect(d.reason).toContain("blockedEntities");
+    });
+
+    it("allows a service granted by an allow rule outside writableDomains", () => {
+        expect(evaluateServiceAccess(acl, "lock", "lock", "lock.front").allowed).toBe(true);
+    });
+
+    it("denies with the rule's reason", () => {
+        const d = evaluateServiceAccess(acl, "lock", "unlock", "lock.front");
+        expect(d.allowed).toBe(false);
+        expect(d.reason).toBe('Unlocking needs a human (serviceRules deny "lock.unlock")');
+    });
+
+    it("restricts a service to the entities of its allow rules", () => {
+        expect(evaluateServiceAccess(acl, "climate", "set_temperature", "climate.living_room").allowed).toBe(true);
+        const d = evaluateServiceAccess(acl, "climate", "set_temperature", "climate.bedroom");
+        expect(d.allowed).toBe(false);
+        expect(d.reason).toContain("only allowed on climate.living_*");
+        // Other climate services still follow writableDomains
+        expect(evaluateServiceAccess(acl, "climate", "set_hvac_mode", "climate.bedroom").allowed).toBe(true);
+    });
+
+    it("applies entity-scoped deny rules with glob services", () => {
+        expect(evaluateServiceAccess(acl, "light", "turn_on", "light.nursery").allowed).toBe(false);
+        expect(evaluateServiceAccess(acl, "light", "turn_on", "light.kitchen").allowed).toBe(true);
+    });
+
+    it("applies rules on the service a generic homeassistant service forwards to", () => {
+        const coverAcl: ServiceACL = {
+            blockedEntities: [],
+            writableDomains: ["cover", "switch"],
+            serviceRules: [{ service: "cover.close_cover", entities: ["cover.garage"], effect: "deny" }],
+        };
+        const d = evaluateServiceAccess(coverAcl, "homeassistant", "turn_off", "cover.garage");
+        expect(d.allowed).toBe(false);
+        expect(d.reason).toBe('denied by serviceRules deny "cover.close_cover" on cover.garage');
+        expect(evaluateServiceAccess(coverAcl, "homeassistant", "turn_on", "cover.garage").allowed).toBe(true);
+        expect(evaluateServiceAccess(coverAcl, "homeassistant", "turn_off", "switch.fan").allowed).toBe(true);
+    });
+
+    it("falls back to writableDomains", () => {
+        const d = evaluateServiceAccess(acl, "switch", "turn_on", "switch.fan");
+        expect(d.allowed).toBe(false);
+        expect(d.reason).toBe('domain "switch" is not in writableDomains');
+    });
+});
+
+describe("isServiceCallable / callableDomains", () => {
+    it("hides services denied without an entity scope", () => {
+        expect(isServiceCallable(acl, "lock", "lock")).toBe(true);
+        expect(isServiceCallable(acl, "lock", "unlock")).toBe(false);
+        expect(isServiceCallable(acl, "light", "turn_on")).toBe(true);
+    });
+
+    it("adds domains named by allow rules", () => {
+        expect(callableDomains(acl)).toEqual(["light", "climate", "lock"]);
+    });
+});
+
+describe("confirmationReason", () => {
+    const policy = { services: ["lock.unlock", "alarm_control_panel.*"], entities: ["cover.garage_*"] };
+
+    it("returns null without a policy or match", () => {
+        expect(confirmationReason(undefined, "lock", "unlock", ["lock.front"])).toBeNull();
+        expect(confirmationReason(policy, "lock", "lock", ["lock.front"])).toBeNull();
+    });
+
+    it("matches services by glob", () => {
+        expect(confirmationReason(policy, "alarm_control_panel", "alarm_disarm", ["alarm_control_panel.home"]))
+            .toBe("alarm_control_panel.alarm_disarm is listed in requireConfirmation.services");
+    });
+
+    it("matches any targeted entity", () => {
+        expect(confirmationReason(policy, "cover", "open_cover", ["cover.blinds", "cover.garage_door"]))
+            .toBe("cover.garage_door is listed in requireConfirmation.entities");
+    });
+
+    it("matches the service a generic homeassistant service forwards to", () => {
+        const covers = { services: ["cover.*"] };
+        expect(confirmationReason(covers, "homeassistant", "toggle", ["light.hall", "cover.garage"]))
+            .toBe("cover.toggle is listed in requireConfirmation.services");
+        const close = { services: ["cover.close_cover"] };
+        expect(confirmationReason(close, "homeassistant", "turn_off", ["cover.garage"]))
+            .toBe("cover.close_cover is listed in requireConfirmation.services");
+        expect(confirmationReason(covers, "homeassistant", "turn_off", ["light.hall"])).toBeNull();
+    });
+});
+
+describe("redactAttributes", () => {
+    const rules = {
+        "person.*": ["latitude", "longitude", "gps_*"],
+        "camera.*": ["entity_picture", "access_token"],
+        "device_tracker.phone": ["ip"],
+    };
+
+    it("removes matching attributes by entity and attribute glob", () => {
+        const person = {
+            entity_id: "person.alice",
+            state: "home",
+            attributes: { friendly_name: "Alice", latitude: 1, longitude: 2, gps_accuracy: 10 },
+        };
+        expect(redactAttributes(rules, person).attributes).toEqual({ friendly_name: "Alice" });
+        // Input is left untouched
+        expect(person.attributes.latitude).toBe(1);
+    });
+
+    it("only applies rules for matching entities", () => {
+        const tracker = { entity_id: "device_tracker.tablet", attributes: { ip: "10.0.0.2" } };
+        expect(redactAttributes(rules, tracker)).toBe(tracker);
+        const phone = { entity_id: "device_tracker.phone", attributes: { ip: "10.0.0.3", source_type: "router" } };
+        expect(redactAttributes(rules, phone).attributes).toEqual({ source_type: "router" });
+    });
+
+    it("handles entities without attributes", () => {
+        const state = { entity_id: "camera.door" };
+        expect(redactAttributes(rules, state)).toBe(state);
+    });
+});
+
+describe("explainEntityAccess", () => {
+    const watched = { patterns: ["sensor.*", "light.kitchen"], source: "acl.watchedEntities", enabled: true };
+
+    it("names the blockedEntities pattern for hidden entities", () => {
+        const e = explainEntityAccess(acl, watched, "lock.garage");
+        expect(e.tier).toBe("hidden");
+        expect(e.reasons[0]).toContain('matches "lock.garage" in acl.blockedEntities');
+    });
+
+    it("reports readable entities that aren't writable, with the key to change", () => {
+        const e = explainEntityAccess(acl, watched, "fan.bedroom");
+        expect(e.tier).toBe("readable");
+        expect(e.reasons).toContain("Not watched: no pattern in acl.watchedEntities matches.");
+        expect(e.reasons.join("\n")).toContain('Add "fan" to acl.writableDomains');
+    });
+
+    it("reports watched entities with the matching pattern", () => {
+        const e = explainEntityAccess(acl, watched, "sensor.temp");
+        expect(e.tier).toBe("watched");
+        expect(e.reasons).toContain('Watched: matches "sensor.*" in acl.watchedEntities.');
+    });
+
+    it("does not count watched entities when context injection is disabled", () => {
+        const e = explainEntityAccess(acl, { ...watched, enabled: false }, "sensor.temp");
+        expect(e.tier).toBe("readable");
+        expect(e.reasons[1]).toContain("context injection is disabled");
+    });
+
+    it("reports writable entities with domain, deny rules and restrictions", () => {
+        const kitchen = explainEntityAccess(acl, watched, "light.kitchen");
+        expect(kitchen.tier).toBe("writable");
+        expect(kitchen.reasons).toContain('Writable: domain "light" is in acl.writableDomains.');
+
+        const nursery = explainEntityAccess(acl, watched, "light.nursery");
+        expect(nursery.reasons).toContain('Denied: serviceRules deny "light.*" on light.nursery.');
+
+        const bedroom = explainEntityAccess(acl, watched, "climate.bedroom");
+        expect(bedroom.reasons).toContain(
+            'Restricted: serviceRules allow "climate.set_temperature" on climate.living_* does not include this entity.',
+        );
+    });
+
+    it("reports allow rules, confirmation and redaction", () => {
+        const e = explainEntityAccess(
+            {
+                ...acl,
+                requireConfirmation: { services: ["lock.*"] },
+                redactedAttributes: { "lock.*": ["code_format"] },
+            },
+            watched,
+            "lock.front",
+        );
+        expect(e.tier).toBe("writable");
+        expect(e.reasons).toContain('Writable for some services: serviceRules allow "lock.lock".');
+        expect(e.reasons).toContain('Denied: serviceRules deny "lock.unlock" — Unlocking needs a human.');
+        expect(e.reasons).toContain("Needs approval for: lock.* (acl.requireConfirmation.services).");
+        expect(e.reasons).toContain('Redacted attributes: code_format (acl.redactedAttributes "lock.*").');
+        expect(formatAccessExplanation("lock.front", e)).toMatch(/^lock\.front: writable\n- Readable/);
+    });
+
+    it("is not writable when deny rules cover every service", () => {
+        const lockAcl: ServiceACL = {
+            blockedEntities: [],
+            writableDomains: ["lock"],
+            serviceRules: [{ service: "lock.*", effect: "deny" }],
+        };
+        const e = explainEntityAccess(lockAcl, watched, "lock.front");
+        expect(e.tier).toBe("readable");
+        expect(e.reasons.join("\n")).toContain("Not writable: acl.serviceRules deny every service on it");
+        expect(e.reasons).toContain('Denied: serviceRules deny "lock.*".');
+
+        // A deny on one service leaves the rest callable
+        const partial = { ...lockAcl, serviceRules: [{ service: "lock.unlock", effect: "deny" as const }] };
+        expect(explainEntityAccess(partial, watched, "lock.front").tier).toBe("writable");
+        // An allow rule whose only service is denied grants nothing
+        const allowed: ServiceACL = {
+            blockedEntities: [],
+            writableDomains: [],
+            serviceRules: [
+                { service: "lock.lock", effect: "allow" },
+                { service: "lock.*", entities: ["lock.front"], effect: "deny" },
+            ],
+        };
+        expect(explainEntityAccess(allowed, watched, "lock.front").tier).toBe("readable");
+        expect(explainEntityAccess(allowed, watched, "lock.back").tier).toBe("writable");
+    });
+});
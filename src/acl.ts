@@ -0,0 +1,339 @@
+/**
+ * Service-level ACL rules.
+ *
+ * `writableDomains` grants every service on a domain. Service rules refine
+ * that per service and per entity, e.g. allow `lock.lock` but deny
+ * `lock.unlock`, or allow `climate.set_temperature` only on some entities.
+ *
+ * Evaluation order for one entity:
+ * 1. blockedEntities — always denied
+ * 2. a matching `deny` rule
+ * 3. a matching `allow` rule
+ * 4. `allow` rules exist for the service but none covers this entity — denied
+ * 5. writableDomains on the entity's domain
+ *
+ * Also: confirmation policy (calls needing user approval), attribute
+ * redaction (sensitive attributes stripped from every entity HAClient returns)
+ * and a per-entity explanation of all of the above.
+ */
+
+import { matchesAnyPattern } from "./ha-client.js";
+
+// ---- Types ----
+
+export type ServiceRule = {
+    /** Glob on "domain.service" (e.g. "lock.unlock", "climate.*") */
+    service: string;
+    /** Entity glob patterns the rule applies to (omit = all entities) */
+    entities?: string[];
+    effect: "allow" | "deny";
+    /** Explanation shown to the agent when the rule denies a call */
+    reason?: string;
+};
+
+export type ServiceACL = {
+    blockedEntities: string[];
+    writableDomains: string[];
+    serviceRules: ServiceRule[];
+};
+
+export type ACLDecision = {
+    allowed: boolean;
+    /** Why the call was allowed or denied, naming the config key responsible */
+    reason: string;
+    /** The service rule that decided, if any */
+    rule?: ServiceRule;
+};
+
+// ---- Evaluation ----
+
+/** Per-domain services the generic `homeassistant.*` services forward to, where the name differs. */
+const FORWARDED_SERVICES: Record<string, Record<string, string>> = {
+    cover: { turn_on: "open_cover", turn_off: "close_cover" },
+};
+
+/**
+ * The "domain.service" names a call on one entity is checked against.
+ * `homeassistant.turn_on/turn_off/toggle` forward to the entity's own
+ * domain, so rules on that service (e.g. `cover.close_cover`) apply too.
+ */
+function serviceNamesFor(domain: string, service: string, entityId: string): string[] {
+    const names = [`${domain}.${service}`];
+    const entityDomain = entityId.split(".")[0] ?? "";
+    const forwarded = ["turn_on", "turn_off", "toggle"].includes(service);
+    if (domain === "homeassistant" && entityDomain !== domain && forwarded) {
+        names.push(`${entityDomain}.${FORWARDED_SERVICES[entityDomain]?.[service] ?? service}`);
+    }
+    return names;
+}
+
+function ruleMatchesService(rule: ServiceRule, names: string[]): boolean {
+    return names.some((name) => matchesAnyPattern(name, [rule.service]));
+}
+
+function ruleMatchesEntity(rule: ServiceRule, entityId: string): boolean {
+    return !rule.entities || rule.entities.length === 0 || matchesAnyPattern(entityId, rule.entities);
+}
+
+function describeRule(rule: ServiceRule): string {
+    const scope = rule.entities?.length ? ` on ${rule.entities.join(", ")}` : "";
+    return `serviceRules ${rule.effect} "${rule.service}"${scope}`;
+}
+
+/** Decide whether `domain.service` may be called on one entity. */
+export function evaluateServiceAccess(
+    acl: ServiceACL,
+    domain: string,
+    service: string,
+    entityId: string,
+): ACLDecision {
+    if (matchesAnyPattern(entityId, acl.blockedEntities)) {
+        return { allowed: false, reason: "blocked by ACL (blockedEntities)" };
+    }
+
+    const names = serviceNamesFor(domain, service, entityId);
+    const rules = acl.serviceRules.filter((r) => ruleMatchesService(r, names));
+
+    const deny = rules.find((r) => r.effect === "deny" && ruleMatchesEntity(r, entityId));
+    if (deny) {
+        return {
+            allowed: false,
+            reason: deny.reason ? `${deny.reason} (${describeRule(deny)})` : `denied by ${describeRule(deny)}`,
+            rule: deny,
+        };
+    }
+
+    const allowRules = rules.filter((r) => r.effect === "allow");
+    const allow = allowRules.find((r) => ruleMatchesEntity(r, entityId));
+    if (allow) {
+        return { allowed: true, reason: `allowed by ${describeRule(allow)}`, rule: allow };
+    }
+    if (allowRules.length > 0) {
+        const scopes = allowRules.flatMap((r) => r.entities ?? []);
+        return {
+            allowed: false,
+            reason: `${domain}.${service} is only allowed on ${scopes.join(", ")} (serviceRules)`,
+        };
+    }
+
+    const entityDomain = entityId.split(".")[0] ?? "";
+    if (acl.writableDomains.includes(entityDomain)) {
+        return { allowed: true, reason: `domain "${entityDomain}" is in writableDomains` };
+    }
+    return { allowed: false, reason: `domain "${entityDomain}" is not in writableDomains` };
+}
+
+/**
+ * Whether a service could be called on at least some entity — used to
+ * decide which services to advertise. A deny rule without an entity scope
+ * removes the service entirely; any allow rule makes it callable.
+ */
+export function isServiceCallable(acl: ServiceACL, domain: string, service: string): boolean {
+    const rules = acl.serviceRules.filter((r) => ruleMatchesService(r, [`${domain}.${service}`]));
+    if (rules.some((r) => r.effect === "deny" && !r.entities?.length)) return false;
+    if (rules.some((r) => r.effect === "allow")) return true;
+    return acl.writableDomains.includes(domain);
+}
+
+/** Domains with any callable service: writableDomains plus domains named by allow rules. */
+export function callableDomains(acl: ServiceACL): string[] {
+    const domains = new Set(acl.writableDomains);
+    for (const rule of acl.serviceRules) {
+        const domain = rule.service.split(".")[0] ?? "";
+        if (rule.effect === "allow" && domain && !domain.includes("*")) domains.add(domain);
+    }
+    return [...domains];
+}
+
+// ---- Confirmation ----
+
+export type ConfirmationPolicy = {
+    /** Glob on "domain.service" for calls that need user approval */
+    services?: string[];
+    /** Entity glob patterns for targets that need user approval */
+    entities?: string[];
+    /** How long a pending action stays approvable (default 10 min) */
+    expiresMinutes?: number;
+};
+
+/**
+ * Return why a call needs human confirmation, or null if it can run directly.
+ */
+export function confirmationReason(
+    policy: ConfirmationPolicy | undefined,
+    domain: string,
+    service: string,
+    entityIds: string[],
+): string | null {
+    if (!policy) return null;
+    const names = [`${domain}.${service}`, ...entityIds.flatMap((id) => serviceNamesFor(domain, service, id))];
+    const listed = names.find((name) => matchesAnyPattern(name, policy.services ?? []));
+    if (listed) return `${listed} is listed in requireConfirmation.services`;
+    const entity = entityIds.find((id) => matchesAnyPattern(id, policy.entities ?? []));
+    if (entity) return `${entity} is listed in requireConfirmation.entities`;
+    return null;
+}
+
+// ---- Attribute redaction ----
+
+/**
+ * Entity glob → attribute name globs to strip, e.g.
+ * `{ "person.*": ["latitude", "longitude", "gps_accuracy"], "camera.*": ["entity_picture"] }`.
+ */
+export type RedactedAttributes = Record<string, string[]>;
+
+/** Attribute names of `entityId` that the rules redact. */
+export function redactedAttributeNames(
+    rules: RedactedAttributes,
+    entityId: string,
+    attributes: Record<string, unknown>,
+): string[] {
+    const patterns = Object.entries(rules)
+        .filter(([entityPattern]) => matchesAnyPattern(entityId, [entityPattern]))
+        .flatMap(([, attrPatterns]) => attrPatterns);
+    if (patterns.length === 0) return [];
+    return Object.keys(attributes).filter((name) => matchesAnyPattern(name, patterns));
+}
+
+/**
+ * Return the entity with redacted attributes removed. The input is not
+ * modified; it is returned as-is when nothing needs redacting.
+ */
+export function redactAttributes<T extends { entity_id: string; attributes?: Record<string, unknown> }>(
+    rules: RedactedAttributes,
+    entity: T,
+): T {
+    if (!entity.attributes) return entity;
+    const names = redactedAttributeNames(rules, entity.entity_id, entity.attributes);
+    if (names.length === 0) return entity;
+    const attributes = { ...entity.attributes };
+    for (const name of names) delete attributes[name];
+    return { ...entity, attributes };
+}
+
+// ---- Explanation ----
+
+export type AccessTier = "hidden" | "readable" | "watched" | "writable";
+
+export type WatchedEntities = {
+    patterns: string[];
+    /** Config key or file the patterns come from */
+    source: string;
+    /** Whether context injection is enabled at all */
+    enabled: boolean;
+};
+
+export type AccessExplanation = {
+    tier: AccessTier;
+    /** One line per tier decision and applicable rule, naming the setting responsible */
+    reasons: string[];
+};
+
+/** Stands for any service no rule names; only wildcard service patterns match it. */
+const OTHER_SERVICE = "*";
+
+function firstMatch(value: string, patterns: string[]): string | undefined {
+    return patterns.find((p) => matchesAnyPattern(value, [p]));
+}
+
+/** Explain an entity's effective tier and the exact settings behind it. */
+export function explainEntityAccess(
+    acl: ServiceACL & { requireConfirmation?: ConfirmationPolicy; redactedAttributes?: RedactedAttributes },
+    watched: WatchedEntities,
+    entityId: string,
+): AccessExplanation {
+    const blockedBy = firstMatch(entityId, acl.blockedEntities);
+    if (blockedBy) {
+        return {
+            tier: "hidden",
+            reasons: [
+                `Hidden: matches "${blockedBy}" in acl.blockedEntities. ` +
+                    "Remove or narrow that pattern to make it visible. Hidden entities can't be watched or controlled.",
+            ],
+        };
+    }
+
+    const reasons = ["Readable: no acl.blockedEntities pattern matches."];
+    const domain = entityId.split(".")[0] ?? "";
+
+    const watchedBy = firstMatch(entityId, watched.patterns);
+    const isWatched = Boolean(watchedBy) && watched.enabled;
+    if (watchedBy) {
+        reasons.push(
+            `Watched: matches "${watchedBy}" in ${watched.source}` +
+                (watched.enabled ? "." : ", but context injection is disabled."),
+        );
+    } else {
+        reasons.push(`Not watched: no pattern in ${watched.source} matches.`);
+    }
+
+    // Rules that could apply to this entity: service glob covers its domain, entity scope covers it
+    const rules = acl.serviceRules.filter(
+        (r) =>
+            matchesAnyPattern(domain, [r.service.split(".")[0] ?? ""]) &&
+            (!r.entities?.length || matchesAnyPattern(entityId, r.entities)),
+    );
+    const allowRules = rules.filter((r) => r.effect === "allow");
+    const domainWritable = acl.writableDomains.includes(domain);
+    // Writable if any service survives the deny rules: one a rule names, or any other
+    const candidates = new Set([OTHER_SERVICE]);
+    for (const rule of rules) {
+        const service = rule.service.split(".")[1];
+        if (service && !service.includes("*")) candidates.add(service);
+    }
+    const isWritable = [...candidates].some((s) => evaluateServiceAccess(acl, domain, s, entityId).allowed);
+    if (isWritable && domainWritable) {
+        reasons.push(`Writable: domain "${domain}" is in acl.writableDomains.`);
+    } else if (isWritable) {
+        reasons.push(`Writable for some services: ${allowRules.map(describeRule).join("; ")}.`);
+    } else if (domainWritable || allowRules.length > 0) {
+        reasons.push(
+            "Not writable: acl.serviceRules deny every service on it (see below). " +
+                "Remove or narrow those deny rules to let the agent control it.",
+        );
+    } else {
+        reasons.push(
+            `Not writable: domain "${domain}" is not in acl.writableDomains and no acl.serviceRules allow rule covers it. ` +
+                `Add "${domain}" to acl.writableDomains (or an allow rule) to let the agent control it.`,
+        );
+    }
+
+    for (const rule of rules.filter((r) => r.effect === "deny")) {
+        reasons.push(`Denied: ${describeRule(rule)}${rule.reason ? ` — ${rule.reason}` : ""}.`);
+    }
+    // Allow rules for the domain that exclude this entity restrict those services
+    const excluding = acl.serviceRules.filter(
+        (r) =>
+            r.effect === "allow" &&
+            r.entities?.length &&
+            matchesAnyPattern(domain, [r.service.split(".")[0] ?? ""]) &&
+            !matchesAnyPattern(entityId, r.entities),
+    );
+    for (const rule of excluding) {
+        if (!allowRules.some((r) => r.service === rule.service)) {
+            reasons.push(`Restricted: ${describeRule(rule)} does not include this entity.`);
+        }
+    }
+
+    if (isWritable && acl.requireConfirmation) {
+        const entity = firstMatch(entityId, acl.requireConfirmation.entities ?? []);
+        if (entity) reasons.push(`Needs approval: matches "${entity}" in acl.requireConfirmation.entities.`);
+        const services = (acl.requireConfirmation.services ?? []).filter((p) =>
+            matchesAnyPattern(domain, [p.split(".")[0] ?? ""]),
+        );
+        if (services.length > 0) {
+            reasons.push(`Needs approval for: ${services.join(", ")} (acl.requireConfirmation.services).`);
+        }
+    }
+
+    const redacted = Object.entries(acl.redactedAttributes ?? {})
+        .filter(([pattern]) => matchesAnyPattern(entityId, [pattern]))
+        .map(([pattern, attrs]) => `${attrs.join(", ")} (acl.redactedAttributes "${pattern}")`);
+    if (redacted.length > 0) reasons.push(`Redacted attributes: ${redacted.join("; ")}.`);
+
+    return { tier: isWritable ? "writable" : isWatched ? "watched" : "readable", reasons };
+}
+
+export function formatAccessExplanation(entityId: string, explanation: AccessExplanation): string {
+    return `${entityId}: ${explanation.tier}\n${explanation.reasons.map((r) => `- ${r}`).join("\n")}`;
+}
@@ -0,0 +1,119 @@
+/**
+ * Unit tests for agent dispatch: delivery resolution and argv building.
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import {
+    DEFAULT_DELIVERY,
+    buildAgentArgs,
+    describeDelivery,
+    dispatchAgentTurn,
+    resolveDelivery,
+    type CommandRunner,
+} from "./agent-dispatch.js";
+
+describe("resolveDelivery", () => {
+    it("lets later targets override set fields only", () => {
+        expect(
+            resolveDelivery(DEFAULT_DELIVERY, { channel: "discord" }, { agentId: "home", sessionKey: undefined }),
+        ).toEqual({ agentId: "home", deliver: true, channel: "discord" });
+    });
+
+    it("ignores empty strings", () => {
+        expect(resolveDelivery({ agentId: "main" }, { agentId: "" })).toEqual({ agentId: "main" });
+    });
+});
+
+describe("buildAgentArgs", () => {
+    it("passes the message as one argument without shell quoting", () => {
+        const text = `It's "on" && rm -rf / $(whoami)`;
+        const args = buildAgentArgs(text, { agentId: "main", sessionKey: "agent:main:abc", deliver: true });
+        expect(args).toEqual([
+            "agent",
+            "--message",
+            text,
+            "--agent",
+            "main",
+            "--session-key",
+            "agent:main:abc",
+            "--deliver",
+        ]);
+    });
+
+    it("omits unset options", () => {
+        expect(buildAgentArgs("hi", { deliver: false })).toEqual(["agent", "--message", "hi"]);
+    });
+});
+
+describe("describeDelivery", () => {
+    it("summarizes the target", () => {
+        expect(describeDelivery({ agentId: "main", channel: "telegram", deliver: true })).toBe(
+            "agent main, channel telegram",
+        );
+        expect(describeDelivery({ sessionKey: "s1", deliver: false })).toBe("default agent, session s1, reply not delivered");
+    });
+});
+
+describe("dispatchAgentTurn", () => {
+    it("runs openclaw agent through the given runner and logs the outcome", async () => {
+        const runCommand = vi.fn<CommandRunner>(async () => ({ code: 0, stderr: "" }));
+        const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+        dispatchAgentTurn("Door opened", {
+            logger,
+            logPrefix: "[test]",
+            subject: "binary_sensor.door",
+            delivery: { agentId: "home", channel: "discord", deliver: true },
+            runCommand,
+        });
+        await vi.waitFor(() =>
+            expect(logger.info).toHaveBeenCalledWith("[test] openclaw agent completed for binary_sensor.door"),
+        );
+
+        const [argv, options] = runCommand.mock.calls[0]!;
+        expect(argv.slice(2)).toEqual([
+            "agent",
+            "--message",
+            "Door opened",
+            "--agent",
+            "home",
+            "--channel",
+            "discord",
+            "--deliver",
+        ]);
+        expect(options.timeoutMs).toBe(120_000);
+    });
+
+    it("logs failures instead of throwing", async () => {
+        const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+        const onComplete = vi.fn();
+        dispatchAgentTurn("x", {
+            logger,
+            logPrefix: "[test]",
+            subject: "s",
+            delivery: {},
+            runCommand: async () => ({ code: 2, stderr: "no such agent" }),
+            onComplete,
+        });
+        await vi.waitFor(() =>
+            expect(logger.error).toHaveBeenCalledWith("[test] openclaw agent failed (exit 2) stderr: no such agent"),
+        );
+        expect(onComplete).toHaveBeenCalledWith(expect.objectContaining({ code: 2, stderr: "no such agent" }));
+    });
+
+    it("reports runner errors as a null exit status", async () => {
+        const onComplete = vi.fn();
+        dispatchAgentTurn("x", {
+            logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+            logPrefix: "[test]",
+            subject: "s",
+            delivery: {},
+            runCommand: async () => {
+                throw new Error("spawn ENOENT");
+            },
+            onComplete,
+        });
+        await vi.waitFor(() =>
+            expect(onComplete).toHaveBeenCalledWith(expect.objectContaining({ code: null, stderr: "Error: spawn ENOENT" })),
+        );
+    });
+});
@@ -0,0 +1,138 @@
+/**
+ * Agent dispatch — start an agent turn from a background trigger.
+ *
+ * Shared by the listener service (state triggers) and the scheduler (time
+ * triggers) so both are delivered the same way. Where to deliver comes from
+ * the plugin's `delivery` defaults, overridden per listener / schedule.
+ */
+
+import { execFile } from "node:child_process";
+
+export type Logger = {
+    info: (msg: string) => void;
+    warn: (msg: string) => void;
+    error: (msg: string) => void;
+    debug?: (msg: string) => void;
+};
+
+// ---- Delivery ----
+
+export type DeliveryTarget = {
+    /** Agent that runs the turn (`--agent`) */
+    agentId?: string;
+    /** Session the turn runs in (`--session-key`) */
+    sessionKey?: string;
+    /** Channel the reply goes to (`--channel`); unset = the session's channel */
+    channel?: string;
+    /** Send the agent's reply to the channel (`--deliver`) */
+    deliver?: boolean;
+};
+
+export const DEFAULT_DELIVERY: DeliveryTarget = { agentId: "main", deliver: true };
+
+/** Merge delivery settings; later targets win for each field they set. */
+export function resolveDelivery(...targets: (DeliveryTarget | undefined)[]): DeliveryTarget {
+    const resolved: DeliveryTarget = {};
+    for (const target of targets) {
+        if (!target) continue;
+        for (const [key, value] of Object.entries(target) as [keyof DeliveryTarget, unknown][]) {
+            if (value !== undefined && value !== "") (resolved as Record<string, unknown>)[key] = value;
+        }
+    }
+    return resolved;
+}
+
+/** Describe a delivery target, e.g. "agent main, session agent:main:main, channel telegram". */
+export function describeDelivery(d: DeliveryTarget): string {
+    const parts = [
+        d.agentId ? `agent ${d.agentId}` : "default agent",
+        d.sessionKey ? `session ${d.sessionKey}` : undefined,
+        d.channel ? `channel ${d.channel}` : undefined,
+        d.deliver === false ? "reply not delivered" : undefined,
+    ];
+    return parts.filter(Boolean).join(", ");
+}
+
+/** `openclaw agent` argv for a trigger, without the executable. */
+export function buildAgentArgs(triggerText: string, delivery: DeliveryTarget): string[] {
+    const args = ["agent", "--message", triggerText];
+    if (delivery.agentId) args.push("--agent", delivery.agentId);
+    if (delivery.sessionKey) args.push("--session-key", delivery.sessionKey);
+    if (delivery.channel) args.push("--channel", delivery.channel);
+    if (delivery.deliver) args.push("--deliver");
+    return args;
+}
+
+// ---- Dispatch ----
+
+/** Runs argv without a shell, like `api.runtime.system.runCommandWithTimeout`. */
+export type CommandRunner = (
+    argv: string[],
+    options: { timeoutMs: number },
+) => Promise<{ code: number | null; stderr: string }>;
+
+/** Fallback when the runtime doesn't provide a command runner. */
+const execFileRunner: CommandRunner = (argv, options) =>
+    new Promise((resolve) => {
+        execFile(argv[0]!, argv.slice(1), { timeout: options.timeoutMs }, (err, _stdout, stderr) => {
+            const code = err ? (typeof err.code === "number" ? err.code : 1) : 0;
+            resolve({ code, stderr: stderr || (err ? String(err) : "") });
+        });
+    });
+
+/** Outcome of an `openclaw agent` run. */
+export type DispatchResult = {
+    /** Exit status; null when the command could not be run or timed out */
+    code: number | null;
+    stderr: string;
+    durationMs: number;
+};
+
+export type DispatchOptions = {
+    logger: Logger;
+    /** Log prefix, e.g. "[ha-listener]" */
+    logPrefix: string;
+    /** What triggered the turn, for the completion log line */
+    subject: string;
+    /** Where the turn runs and its reply goes */
+    delivery: DeliveryTarget;
+    /** Command runner from the plugin runtime; falls back to execFile */
+    runCommand?: CommandRunner;
+    /** Called once the command has finished, successfully or not */
+    onComplete?: (result: DispatchResult) => void;
+};
+
+const AGENT_TIMEOUT_MS = 120_000;
+
+/**
+ * Run `openclaw agent` with the trigger text as the message. Fire and
+ * forget: failures are logged, not thrown.
+ */
+export function dispatchAgentTurn(triggerText: string, options: DispatchOptions): void {
+    const { logger, logPrefix, subject, delivery } = options;
+
+    // Use `openclaw agent` CLI to trigger an actual agent turn.
+    // Resolve via process.argv — the Gateway itself is openclaw.
+    const ocBin = process.argv[1] ?? "openclaw";
+    const argv = [process.execPath, ocBin, ...buildAgentArgs(triggerText, delivery)];
+    const run = options.runCommand ?? execFileRunner;
+
+    logger.info(`${logPrefix} dispatching to ${describeDelivery(delivery)}`);
+
+    const startedAt = Date.now();
+    run(argv, { timeoutMs: AGENT_TIMEOUT_MS })
+        .then((result) => {
+            if (result.code === 0) {
+                logger.info(`${logPrefix} openclaw agent completed for ${subject}`);
+            } else {
+                logger.error(
+                    `${logPrefix} openclaw agent failed (exit ${result.code})${result.stderr ? ` stderr: ${result.stderr}` : ""}`,
+                );
+            }
+            options.onComplete?.({ code: result.code, stderr: result.stderr, durationMs: Date.now() - startedAt });
+        })
+        .catch((err) => {
+            logger.error(`${logPrefix} failed to run openclaw agent: ${String(err)}`);
+            options.onComplete?.({ code: null, stderr: String(err), durationMs: Date.now() - startedAt });
+        });
+}
@@ -0,0 +1,142 @@
+/**
+ * Unit tests for the service call audit log.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "node:fs/promises";
+import path from "node:path";
+import os from "node:os";
+import {
+    appendAuditRecord,
+    formatAuditRecord,
+    queryAuditLog,
+    resolveAuditLogPath,
+    type AuditRecord,
+} from "./audit-log.js";
+import { HAClient } from "./ha-client.js";
+
+let tmpDir: string;
+
+beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "ha-audit-test-"));
+});
+
+afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+});
+
+function makeRecord(overrides: Partial<AuditRecord> = {}): AuditRecord {
+    return {
+        timestamp: "2025-06-01T10:00:00.000Z",
+        instance: "default",
+        toolCallId: "call_1",
+        domain: "light",
+        service: "turn_on",
+        target: { entity_id: "light.kitchen" },
+        data: { brightness: 200 },
+        allowed: ["light.kitchen"],
+        refused: [],
+        outcome: "executed",
+        message: "Called light.turn_on on light.kitchen.",
+        ...overrides,
+    };
+}
+
+describe("audit log", () => {
+    it("appends one JSON line per record", async () => {
+        await appendAuditRecord(tmpDir, makeRecord());
+        await appendAuditRecord(tmpDir, makeRecord({ outcome: "refused" }));
+        const raw = await fs.readFile(resolveAuditLogPath(tmpDir), "utf8");
+        expect(raw.trim().split("\n")).toHaveLength(2);
+    });
+
+    it("returns empty when no log exists", async () => {
+        expect(await queryAuditLog(tmpDir)).toEqual([]);
+    });
+
+    it("filters by time range, entity glob and instance", async () => {
+        await appendAuditRecord(tmpDir, makeRecord({ timestamp: "2025-06-01T08:00:00.000Z" }));
+        await appendAuditRecord(
+            tmpDir,
+            makeRecord({
+                timestamp: "2025-06-01T09:00:00.000Z",
+                domain: "lock",
+                service: "unlock",
+                allowed: [],
+                refused: [{ target: "lock.front", reason: "blocked by ACL (blockedEntities)" }],
+                outcome: "refused",
+            }),
+        );
+        await appendAuditRecord(tmpDir, makeRecord({ timestamp: "2025-06-01T10:00:00.000Z", instance: "office" }));
+
+        const since = await queryAuditLog(tmpDir, { since: "2025-06-01T08:30:00Z" });
+        expect(since.map((r) => r.timestamp)).toEqual(["2025-06-01T09:00:00.000Z", "2025-06-01T10:00:00.000Z"]);
+
+        const until = await queryAuditLog(tmpDir, { until: "2025-06-01T09:00:00Z" });
+        expect(until).toHaveLength(1);
+
+        const locks = await queryAuditLog(tmpDir, { entityId: "lock.*" });
+        expect(locks.map((r) => r.outcome)).toEqual(["refused"]);
+
+        const office = await queryAuditLog(tmpDir, { instance: "office" });
+        expect(office).toHaveLength(1);
+    });
+
+    it("keeps the most recent records and skips corrupt lines", async () => {
+        for (let i = 0; i < 5; i++) {
+            await appendAuditRecord(tmpDir, makeRecord({ toolCallId: `call_${i}` }));
+        }
+        await fs.appendFile(resolveAuditLogPath(tmpDir), "not json\n");
+        const records = await queryAuditLog(tmpDir, { limit: 2 });
+        expect(records.map((r) => r.toolCallId)).toEqual(["call_3", "call_4"]);
+    });
+
+    it("formats outcome, targets, data and tool call", () => {
+        const text = formatAuditRecord(makeRecord());
+        expect(text).toContain("✅ 2025-06-01T10:00:00.000Z light.turn_on on light.kitchen");
+        expect(text).toContain('{"brightness":200}');
+        expect(text).toContain("tool call call_1");
+    });
+});
+
+describe("HAClient audit", () => {
+    it("records refused calls with the ACL decision and tool call ID", async () => {
+        const client = new HAClient({
+            url: "http://fake",
+            token: "fake",
+            blockedEntities: [],
+            writableDomains: [],
+            stateDir: tmpDir,
+            instanceName: "home",
+        });
+        await client.callService("lock", "unlock", "lock.front", undefined, { toolCallId: "call_42" });
+
+        const [record] = await queryAuditLog(tmpDir);
+        expect(record).toMatchObject({
+            instance: "home",
+            toolCallId: "call_42",
+            domain: "lock",
+            service: "unlock",
+            target: { entity_id: "lock.front" },
+            allowed: [],
+            refused: [{ target: "lock.front", reason: 'domain "lock" is not in writableDomains' }],
+            outcome: "refused",
+        });
+    });
+
+    it("keeps the ACL decision of calls that fail, so they can be found by entity", async () => {
+        const client = new HAClient({
+            // Nothing listens here: the call fails after the ACL check
+            url: "http://127.0.0.1:9",
+            token: "fake",
+            blockedEntities: [],
+            writableDomains: ["light"],
+            stateDir: tmpDir,
+            instanceName: "home",
+        });
+        await expect(client.callService("light", "turn_on", "light.kitchen")).rejects.toThrow();
+
+        const [record] = await queryAuditLog(tmpDir, { entityId: "light.*" });
+        expect(record).toMatchObject({ outcome: "failed", allowed: ["light.kitchen"], refused: [] });
+    });
+});
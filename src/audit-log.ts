@@ -0,0 +1,120 @@
+/**
+ * Audit Log — append-only record of agent-initiated service calls.
+ *
+ * Every `callService` attempt (executed, refused, invalid, pending or
+ * failed) is appended as one JSON line to the plugin state dir, so the user
+ * can see which tool call changed what.
+ */
+
+import fs from "node:fs/promises";
+import path from "node:path";
+import { matchesAnyPattern, type HAServiceCallResult } from "./ha-client.js";
+
+// ---- Types ----
+
+export type AuditOutcome = HAServiceCallResult["outcome"] | "failed";
+
+export type AuditRecord = {
+    /** ISO timestamp of the attempt */
+    timestamp: string;
+    /** HA instance the call was made on */
+    instance: string;
+    /** Tool call that requested it (kept across /ha approve) */
+    toolCallId?: string;
+    /** Set when the call ran after `/ha approve` */
+    confirmed?: boolean;
+    domain: string;
+    service: string;
+    /** Target as requested (entities, areas, devices) */
+    target: Record<string, unknown>;
+    data?: Record<string, unknown>;
+    /** ACL decision per expanded entity */
+    allowed: string[];
+    refused: { target: string; reason: string }[];
+    outcome: AuditOutcome;
+    /** Result message (or error) returned to the caller */
+    message: string;
+};
+
+export type AuditQuery = {
+    /** Only records at or after this time (ISO 8601) */
+    since?: string;
+    /** Only records before this time (ISO 8601) */
+    until?: string;
+    /** Entity glob; matches allowed or refused targets */
+    entityId?: string;
+    instance?: string;
+    /** Most recent N records (default 20) */
+    limit?: number;
+};
+
+// ---- Store path ----
+
+const AUDIT_LOG_FILE = "audit.jsonl";
+
+export function resolveAuditLogPath(stateDir: string): string {
+    return path.join(stateDir, "plugins", "homeassistant", AUDIT_LOG_FILE);
+}
+
+// ---- Read / append ----
+
+export async function appendAuditRecord(stateDir: string, record: AuditRecord): Promise<void> {
+    const filePath = resolveAuditLogPath(stateDir);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.appendFile(filePath, JSON.stringify(record) + "\n", "utf8");
+}
+
+/** Load audit records matching the query, oldest first. Unparseable lines are skipped. */
+export async function queryAuditLog(stateDir: string, query: AuditQuery = {}): Promise<AuditRecord[]> {
+    let raw: string;
+    try {
+        raw = await fs.readFile(resolveAuditLogPath(stateDir), "utf8");
+    } catch {
+        return [];
+    }
+
+    const sinceMs = query.since ? new Date(query.since).getTime() : -Infinity;
+    const untilMs = query.until ? new Date(query.until).getTime() : Infinity;
+    const records: AuditRecord[] = [];
+    for (const line of raw.split("\n")) {
+        if (!line.trim()) continue;
+        let record: AuditRecord;
+        try {
+            record = JSON.parse(line) as AuditRecord;
+        } catch {
+            continue;
+        }
+        const ts = new Date(record.timestamp).getTime();
+        if (ts < sinceMs || ts >= untilMs) continue;
+        if (query.instance && record.instance !== query.instance) continue;
+        if (query.entityId) {
+            const ids = [...record.allowed, ...record.refused.map((r) => r.target)];
+            if (!ids.some((id) => matchesAnyPattern(id, [query.entityId!]))) continue;
+        }
+        records.push(record);
+    }
+    return records.slice(-(query.limit ?? 20));
+}
+
+// ---- Formatting ----
+
+const OUTCOME_ICONS: Record<AuditOutcome, string> = {
+    executed: "✅",
+    refused: "🚫",
+    invalid: "⚠️",
+    pending: "⏸️",
+    simulated: "🧪",
+    failed: "❌",
+};
+
+export function formatAuditRecord(r: AuditRecord): string {
+    const targets = [...r.allowed, ...r.refused.map((x) => x.target)];
+    const data = r.data && Object.keys(r.data).length > 0 ? ` ${JSON.stringify(r.data)}` : "";
+    const meta = [r.instance, r.toolCallId ? `tool call ${r.toolCallId}` : "", r.confirmed ? "approved" : ""]
+        .filter(Boolean)
+        .join(", ");
+    return (
+        `${OUTCOME_ICONS[r.outcome]} ${r.timestamp} ${r.domain}.${r.service} on ` +
+        `${targets.join(", ") || JSON.stringify(r.target)}${data} (${meta}) — ${r.message}`
+    );
+}
@@ -10,6 +10,8 @@ import fs from "node:fs/promises";
 import path from "node:path";
 import type { HAClient } from "./ha-client.js";
 import { formatEntitiesSummary, matchesAnyPattern } from "./ha-client.js";
+import type { WatchedEntities } from "./acl.js";
+import type { InstanceConfig } from "./instances.js";
 
 export type ContextConfig = {
     enabled: boolean;
@@ -18,36 +20,58 @@ export type ContextConfig = {
     groupByArea: boolean;
 };
 
+/**
+ * context-config.json holds the agent's overrides per instance under
+ * `instances`. Top-level fields are the single-instance format from before
+ * named instances; they still apply to instances without their own entry.
+ */
+type StoredContextConfig = Partial<ContextConfig & { entityPatterns?: string[] }>;
+type ContextConfigFile = StoredContextConfig & { instances?: Record<string, StoredContextConfig> };
+
 const CONTEXT_CONFIG_FILE = "context-config.json";
 
+const CONTEXT_CONFIG_KEYS = ["enabled", "watchedEntities", "entityPatterns", "maxEntities", "groupByArea"];
+
 export function resolveContextConfigPath(stateDir: string): string {
     return path.join(stateDir, "plugins", "homeassistant", CONTEXT_CONFIG_FILE);
 }
 
-export async function readContextConfig(stateDir: string): Promise<ContextConfig | null> {
-    const configPath = resolveContextConfigPath(stateDir);
+async function readContextConfigFile(stateDir: string): Promise<ContextConfigFile | null> {
     try {
-        const raw = await fs.readFile(configPath, "utf8");
-        const parsed = JSON.parse(raw) as Partial<ContextConfig & { entityPatterns?: string[] }>;
-        return {
-            enabled: parsed.enabled ?? true,
-            // Support legacy entityPatterns field as fallback
-            watchedEntities: parsed.watchedEntities ?? parsed.entityPatterns ?? [],
-            maxEntities: parsed.maxEntities ?? 50,
-            groupByArea: parsed.groupByArea ?? true,
-        };
+        const parsed = JSON.parse(await fs.readFile(resolveContextConfigPath(stateDir), "utf8"));
+        return parsed && typeof parsed === "object" ? (parsed as ContextConfigFile) : null;
     } catch {
         return null;
     }
 }
 
+/** The agent's overrides for one instance, or null if it has none. */
+export async function readContextConfig(stateDir: string, instance: string): Promise<ContextConfig | null> {
+    const file = await readContextConfigFile(stateDir);
+    if (!file) return null;
+    const legacy = CONTEXT_CONFIG_KEYS.some((key) => key in file) ? file : null;
+    const stored = file.instances?.[instance] ?? legacy;
+    if (!stored) return null;
+    return {
+        enabled: stored.enabled ?? true,
+        // Support legacy entityPatterns field as fallback
+        watchedEntities: stored.watchedEntities ?? stored.entityPatterns ?? [],
+        maxEntities: stored.maxEntities ?? 50,
+        groupByArea: stored.groupByArea ?? true,
+    };
+}
+
+/** Store the agent's overrides for one instance; other instances keep theirs. */
 export async function writeContextConfig(
     stateDir: string,
+    instance: string,
     config: ContextConfig,
 ): Promise<void> {
+    const file = (await readContextConfigFile(stateDir)) ?? {};
+    file.instances = { ...file.instances, [instance]: config };
     const configPath = resolveContextConfigPath(stateDir);
     await fs.mkdir(path.dirname(configPath), { recursive: true });
-    await fs.writeFile(configPath, JSON.stringify(config, null, 2) + "\n", "utf8");
+    await fs.writeFile(configPath, JSON.stringify(file, null, 2) + "\n", "utf8");
 }
 
 export type PluginContextOptions = {
@@ -57,6 +81,16 @@ export type PluginContextOptions = {
     groupByArea?: boolean;
 };
 
+/** An instance's configured context options: `context.*` plus `acl.watchedEntities`. */
+export function instanceContextOptions(config: InstanceConfig): PluginContextOptions {
+    return {
+        enabled: config.context?.enabled,
+        watchedEntities: config.acl?.watchedEntities,
+        maxEntities: config.context?.maxEntities,
+        groupByArea: config.context?.groupByArea,
+    };
+}
+
 /** Merge user plugin config with agent-stored overrides. */
 export function mergeContextConfig(
     userConfig: PluginContextOptions | undefined,
@@ -70,10 +104,31 @@ export function mergeContextConfig(
     };
 }
 
-/** Build the context text to prepend to agent conversation. */
+/** Effective watched patterns and where they come from, for ACL explanations. */
+export async function resolveWatchedEntities(
+    stateDir: string,
+    instance: string,
+    userConfig: PluginContextOptions | undefined,
+): Promise<WatchedEntities> {
+    const agentOverrides = await readContextConfig(stateDir, instance);
+    const merged = mergeContextConfig(userConfig, agentOverrides);
+    return {
+        patterns: merged.watchedEntities,
+        source: agentOverrides
+            ? `${CONTEXT_CONFIG_FILE} watchedEntities (set via ha_context_config)`
+            : "acl.watchedEntities",
+        enabled: merged.enabled,
+    };
+}
+
+/**
+ * Build the context text to prepend to agent conversation.
+ * `instanceLabel` names the HA instance when several are configured.
+ */
 export async function buildHomeContext(
     client: HAClient,
     config: ContextConfig,
+    instanceLabel?: string,
 ): Promise<string | null> {
     if (!config.enabled || !client.isConfigured) return null;
 
@@ -81,6 +136,8 @@ export async function buildHomeContext(
     const patterns = config.watchedEntities;
     if (patterns.length === 0) return null;
 
+    const heading = instanceLabel ? `🏠 Home Status — ${instanceLabel}` : "🏠 Home Status";
+
     try {
         let entities = await client.getStates();
 
@@ -91,13 +148,15 @@ export async function buildHomeContext(
 
         if (entities.length === 0) return null;
 
+        const areas = config.groupByArea ? await client.getEntityAreas() : undefined;
         const summary = formatEntitiesSummary(entities, {
             groupByArea: config.groupByArea,
             maxEntities: config.maxEntities,
+            areas,
         });
 
-        return `## 🏠 Home Status (live)\n${summary}`;
+        return `## ${heading} (live)\n${summary}`;
     } catch (err) {
-        return `## 🏠 Home Status\n_Failed to fetch: ${String(err)}_`;
+        return `## ${heading}\n_Failed to fetch: ${String(err)}_`;
     }
 }
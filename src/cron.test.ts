@@ -0,0 +1,83 @@
+/**
+ * Unit tests for cron parsing and time zone helpers.
+ */
+
+import { describe, it, expect } from "vitest";
+import { formatZonedTime, nextCronTime, parseCron, parseZonedTime } from "./cron.js";
+
+describe("parseCron", () => {
+    it("parses lists, ranges, steps and names", () => {
+        const spec = parseCron("*/15 7-9 * jan,jul mon-fri");
+        expect([...spec.minutes]).toEqual([0, 15, 30, 45]);
+        expect([...spec.hours]).toEqual([7, 8, 9]);
+        expect([...spec.months]).toEqual([1, 7]);
+        expect([...spec.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+        expect(spec.domRestricted).toBe(false);
+    });
+
+    it("treats 7 as Sunday", () => {
+        expect([...parseCron("0 0 * * 7").daysOfWeek]).toEqual([0]);
+    });
+
+    it("rejects malformed expressions", () => {
+        expect(() => parseCron("0 8 * *")).toThrow("must have 5 fields");
+        expect(() => parseCron("61 8 * * *")).toThrow("out of range 0-59");
+        expect(() => parseCron("0 8 * * someday")).toThrow('invalid value "someday"');
+    });
+});
+
+describe("nextCronTime", () => {
+    it("evaluates in the given time zone", () => {
+        // Friday 2025-01-31 08:00 in Berlin (UTC+1)
+        const after = Date.parse("2025-01-31T07:00:00Z");
+        const next = nextCronTime(parseCron("30 7 * * mon-fri"), after, "Europe/Berlin");
+        // Next weekday 07:30 Berlin is Monday 2025-02-03
+        expect(new Date(next!).toISOString()).toBe("2025-02-03T06:30:00.000Z");
+    });
+
+    it("is strictly after the given time", () => {
+        const after = Date.parse("2025-06-01T12:00:00Z");
+        const next = nextCronTime(parseCron("0 12 * * *"), after, "UTC");
+        expect(new Date(next!).toISOString()).toBe("2025-06-02T12:00:00.000Z");
+    });
+
+    it("follows DST changes", () => {
+        // Berlin switches to UTC+2 on 2025-03-30
+        const after = Date.parse("2025-03-29T12:00:00Z");
+        const spec = parseCron("0 8 * * *");
+        const first = nextCronTime(spec, after, "Europe/Berlin")!;
+        const second = nextCronTime(spec, first, "Europe/Berlin")!;
+        expect(new Date(first).toISOString()).toBe("2025-03-30T06:00:00.000Z");
+        expect(new Date(second).toISOString()).toBe("2025-03-31T06:00:00.000Z");
+    });
+
+    it("ORs day-of-month and day-of-week when both are set", () => {
+        // The 1st, or any Sunday
+        const after = Date.parse("2025-02-02T12:00:00Z"); // a Sunday
+        const next = nextCronTime(parseCron("0 0 1 * sun"), after, "UTC");
+        expect(new Date(next!).toISOString()).toBe("2025-02-09T00:00:00.000Z");
+    });
+
+    it("returns null for expressions that never match", () => {
+        expect(nextCronTime(parseCron("0 0 30 2 *"), Date.parse("2025-01-01T00:00:00Z"), "UTC")).toBeNull();
+    });
+});
+
+describe("parseZonedTime / formatZonedTime", () => {
+    it("reads local times in the time zone and absolute times as-is", () => {
+        expect(new Date(parseZonedTime("2025-07-01T07:30", "Europe/Berlin")!).toISOString()).toBe(
+            "2025-07-01T05:30:00.000Z",
+        );
+        expect(new Date(parseZonedTime("2025-01-01 07:30", "Europe/Berlin")!).toISOString()).toBe(
+            "2025-01-01T06:30:00.000Z",
+        );
+        expect(new Date(parseZonedTime("2025-07-01T07:30:00Z", "Europe/Berlin")!).toISOString()).toBe(
+            "2025-07-01T07:30:00.000Z",
+        );
+        expect(parseZonedTime("tomorrow", "UTC")).toBeNull();
+    });
+
+    it("formats local wall-clock time", () => {
+        expect(formatZonedTime(Date.parse("2025-07-01T05:30:00Z"), "Europe/Berlin")).toBe("2025-07-01 07:30");
+    });
+});
@@ -0,0 +1,218 @@
+/**
+ * Cron expressions and time zone helpers for the scheduler.
+ *
+ * Standard 5-field cron (minute hour day-of-month month day-of-week) with
+ * `*`, lists, ranges, steps and English month/day names. Times are
+ * evaluated as wall-clock time in a given IANA time zone (HA's
+ * `time_zone`), using Intl — no timezone database dependency.
+ */
+
+// ---- Parsing ----
+
+export type CronSpec = {
+    minutes: Set<number>;
+    hours: Set<number>;
+    daysOfMonth: Set<number>;
+    months: Set<number>;
+    /** 0 = Sunday */
+    daysOfWeek: Set<number>;
+    /** Day-of-month / day-of-week restricted (cron ORs them when both are) */
+    domRestricted: boolean;
+    dowRestricted: boolean;
+};
+
+const MONTH_NAMES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const DAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+function parseValue(raw: string, names?: string[], nameOffset = 0): number {
+    const lower = raw.toLowerCase();
+    const named = names?.indexOf(lower) ?? -1;
+    if (named >= 0) return named + nameOffset;
+    if (!/^\d+$/.test(raw)) throw new Error(`invalid value "${raw}"`);
+    return Number(raw);
+}
+
+function parseField(field: string, min: number, max: number, names?: string[], nameOffset = 0): Set<number> {
+    const values = new Set<number>();
+    for (const part of field.split(",")) {
+        const [range, stepStr] = part.split("/");
+        const step = stepStr === undefined ? 1 : Number(stepStr);
+        if (!Number.isInteger(step) || step < 1) throw new Error(`invalid step in "${part}"`);
+
+        let start: number;
+        let end: number;
+        if (range === "*") {
+            start = min;
+            end = max;
+        } else if (range!.includes("-")) {
+            const [a, b] = range!.split("-");
+            start = parseValue(a!, names, nameOffset);
+            end = parseValue(b!, names, nameOffset);
+        } else {
+            start = parseValue(range!, names, nameOffset);
+            end = stepStr === undefined ? start : max;
+        }
+        if (start < min || end > max || start > end) {
+            throw new Error(`"${part}" is out of range ${min}-${max}`);
+        }
+        for (let v = start; v <= end; v += step) values.add(v);
+    }
+    return values;
+}
+
+/** Parse a 5-field cron expression. Throws with a readable message if invalid. */
+export function parseCron(expression: string): CronSpec {
+    const fields = expression.trim().split(/\s+/);
+    if (fields.length !== 5) {
+        throw new Error(
+            `Cron expression "${expression}" must have 5 fields (minute hour day-of-month month day-of-week).`,
+        );
+    }
+    const [minute, hour, dom, month, dow] = fields as [string, string, string, string, string];
+    try {
+        const daysOfWeek = parseField(dow, 0, 7, DAY_NAMES);
+        // 7 is Sunday too
+        if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+        return {
+            minutes: parseField(minute, 0, 59),
+            hours: parseField(hour, 0, 23),
+            daysOfMonth: parseField(dom, 1, 31),
+            months: parseField(month, 1, 12, MONTH_NAMES, 1),
+            daysOfWeek,
+            domRestricted: dom !== "*",
+            dowRestricted: dow !== "*",
+        };
+    } catch (err) {
+        throw new Error(`Invalid cron expression "${expression}": ${(err as Error).message}`);
+    }
+}
+
+// ---- Time zones ----
+
+export type ZonedParts = {
+    year: number;
+    month: number;
+    day: number;
+    hour: number;
+    minute: number;
+    second: number;
+    /** 0 = Sunday */
+    weekday: number;
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+    let f = formatters.get(timeZone);
+    if (!f) {
+        f = new Intl.DateTimeFormat("en-US", {
+            timeZone,
+            hourCycle: "h23",
+            year: "numeric",
+            month: "numeric",
+            day: "numeric",
+            hour: "numeric",
+            minute: "numeric",
+            second: "numeric",
+            weekday: "short",
+        });
+        formatters.set(timeZone, f);
+    }
+    return f;
+}
+
+/** Whether `timeZone` is a valid IANA zone name. */
+export function isValidTimeZone(timeZone: string): boolean {
+    try {
+        formatterFor(timeZone);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/** Wall-clock date and time of an instant in a time zone. */
+export function zonedParts(timestamp: number, timeZone: string): ZonedParts {
+    const parts: Record<string, string> = {};
+    for (const p of formatterFor(timeZone).formatToParts(new Date(timestamp))) parts[p.type] = p.value;
+    return {
+        year: Number(parts.year),
+        month: Number(parts.month),
+        day: Number(parts.day),
+        hour: Number(parts.hour),
+        minute: Number(parts.minute),
+        second: Number(parts.second),
+        weekday: DAY_NAMES.indexOf(parts.weekday!.toLowerCase()),
+    };
+}
+
+/** Offset of the time zone from UTC at an instant, in milliseconds. */
+function zoneOffset(timestamp: number, timeZone: string): number {
+    const p = zonedParts(timestamp, timeZone);
+    const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+    return asUtc - Math.floor(timestamp / 1000) * 1000;
+}
+
+/**
+ * Parse a time as an instant. Strings with an offset or "Z" are absolute;
+ * local ones ("2025-01-31T07:30", "2025-01-31 07:30") are wall-clock time
+ * in `timeZone`. Returns null if unparseable.
+ */
+export function parseZonedTime(value: string, timeZone: string): number | null {
+    const local = /^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::(\d{2}))?$/.exec(value.trim());
+    if (!local) {
+        const t = new Date(value).getTime();
+        return Number.isNaN(t) ? null : t;
+    }
+    const [, y, mo, d, h, mi, s] = local;
+    const guess = Date.UTC(Number(y), Number(mo) - 1, Number(d), Number(h), Number(mi), Number(s ?? 0));
+    // Correct by the offset at the guess, then again in case that crossed a DST change
+    let result = guess - zoneOffset(guess, timeZone);
+    result = guess - zoneOffset(result, timeZone);
+    return result;
+}
+
+/** Format an instant as local "YYYY-MM-DD HH:MM" in a time zone. */
+export function formatZonedTime(timestamp: number, timeZone: string): string {
+    const p = zonedParts(timestamp, timeZone);
+    const pad = (n: number) => String(n).padStart(2, "0");
+    return `${p.year}-${pad(p.month)}-${pad(p.day)} ${pad(p.hour)}:${pad(p.minute)}`;
+}
+
+// ---- Next run ----
+
+function dayMatches(spec: CronSpec, p: ZonedParts): boolean {
+    if (!spec.months.has(p.month)) return false;
+    const dom = spec.daysOfMonth.has(p.day);
+    const dow = spec.daysOfWeek.has(p.weekday);
+    if (spec.domRestricted && spec.dowRestricted) return dom || dow;
+    if (spec.domRestricted) return dom;
+    if (spec.dowRestricted) return dow;
+    return true;
+}
+
+const MINUTE = 60_000;
+/** Give up after this long (e.g. "0 0 30 2 *" never matches) */
+const SEARCH_LIMIT = 5 * 366 * 24 * 60 * MINUTE;
+
+/**
+ * First instant strictly after `after` that matches the cron spec in
+ * `timeZone`, or null if none within five years. Local times skipped by a
+ * DST change never match.
+ */
+export function nextCronTime(spec: CronSpec, after: number, timeZone: string): number | null {
+    let t = Math.floor(after / MINUTE) * MINUTE + MINUTE;
+    const limit = after + SEARCH_LIMIT;
+    while (t <= limit) {
+        const p = zonedParts(t, timeZone);
+        // Step an hour at a time rather than to midnight, so DST days can't overshoot
+        if (!dayMatches(spec, p) || !spec.hours.has(p.hour)) {
+            t += (60 - p.minute) * MINUTE;
+        } else if (!spec.minutes.has(p.minute)) {
+            t += MINUTE;
+        } else {
+            return t;
+        }
+    }
+    return null;
+}
@@ -0,0 +1,122 @@
+/**
+ * Unit tests for dry-run effect predictions.
+ */
+
+import { describe, it, expect } from "vitest";
+import { predictServiceEffect } from "./dry-run.js";
+import { HAClient, type HAEntity } from "./ha-client.js";
+import { HAStateCache } from "./state-cache.js";
+
+function entity(entity_id: string, state: string, attributes: Record<string, unknown> = {}): HAEntity {
+    return { entity_id, state, attributes, last_changed: "", last_updated: "" };
+}
+
+describe("predictServiceEffect", () => {
+    it("describes state changes with settings", () => {
+        expect(
+            predictServiceEffect("light", "turn_on", "light.kitchen", entity("light.kitchen", "off"), {
+                brightness_pct: 60,
+            }),
+        ).toBe("light.kitchen would go from off to on at 60% brightness");
+    });
+
+    it("converts raw brightness to a percentage", () => {
+        expect(
+            predictServiceEffect("light", "turn_on", "light.desk", entity("light.desk", "off"), { brightness: 128 }),
+        ).toBe("light.desk would go from off to on at 50% brightness");
+    });
+
+    it("reports no-ops and setting changes on entities already in the target state", () => {
+        expect(predictServiceEffect("switch", "turn_off", "switch.fan", entity("switch.fan", "off"))).toBe(
+            "switch.fan is already off (no change)",
+        );
+        expect(
+            predictServiceEffect("light", "turn_on", "light.kitchen", entity("light.kitchen", "on"), {
+                color_temp_kelvin: 2700,
+            }),
+        ).toBe("light.kitchen is already on; it would be set to color temperature 2700K");
+    });
+
+    it("resolves toggle from the current state", () => {
+        expect(predictServiceEffect("cover", "toggle", "cover.garage", entity("cover.garage", "closed"))).toBe(
+            "cover.garage would go from closed to open",
+        );
+    });
+
+    it("uses data for value-setting services", () => {
+        expect(
+            predictServiceEffect("climate", "set_hvac_mode", "climate.living", entity("climate.living", "off"), {
+                hvac_mode: "heat",
+            }),
+        ).toBe("climate.living would go from off to heat");
+        expect(
+            predictServiceEffect("climate", "set_temperature", "climate.living", entity("climate.living", "heat"), {
+                temperature: 21,
+            }),
+        ).toBe("climate.living (currently heat) would be set to target temperature 21");
+    });
+
+    it("handles scenes, unknown state and unpredictable services", () => {
+        expect(predictServiceEffect("scene", "turn_on", "scene.movie", null)).toBe("scene.movie would be activated");
+        expect(predictServiceEffect("lock", "lock", "lock.front", null)).toBe(
+            "lock.front would go from unknown to locked",
+        );
+        expect(predictServiceEffect("vacuum", "locate", "vacuum.robo", entity("vacuum.robo", "docked"))).toBe(
+            "vacuum.robo (currently docked) would receive vacuum.locate; effect not predicted",
+        );
+    });
+});
+
+describe("HAClient dry run", () => {
+    it("checks the ACL and predicts the effect without calling HA", async () => {
+        const stateCache = new HAStateCache();
+        stateCache.seed([entity("light.kitchen", "off"), entity("light.secret", "off")]);
+        const client = new HAClient({
+            // Nothing listens here: a real call would fail
+            url: "http://127.0.0.1:9",
+            token: "fake",
+            blockedEntities: ["light.secret"],
+            writableDomains: ["light"],
+            dryRun: true,
+            stateCache,
+        });
+        const result = await client.callService(
+            "light",
+            "turn_on",
+            { entity_id: ["light.kitchen", "light.secret"] },
+            { brightness_pct: 60 },
+        );
+        expect(result.success).toBe(true);
+        expect(result.outcome).toBe("simulated");
+        expect(result.executed).toEqual([]);
+        expect(result.message).toContain("- light.kitchen would go from off to on at 60% brightness");
+        expect(result.message).toContain("Refused: light.secret (blocked by ACL (blockedEntities))");
+    });
+
+    it("reports when the real call would wait for confirmation", async () => {
+        const stateCache = new HAStateCache();
+        stateCache.seed([entity("lock.front", "locked")]);
+        const client = new HAClient({
+            url: "http://127.0.0.1:9",
+            token: "fake",
+            blockedEntities: [],
+            writableDomains: ["lock"],
+            requireConfirmation: { services: ["lock.unlock"] },
+            stateCache,
+        });
+        const result = await client.callService("lock", "unlock", "lock.front", undefined, { dryRun: true });
+        expect(result.outcome).toBe("simulated");
+        expect(result.pendingConfirmation).toBeUndefined();
+        expect(result.message).toContain("- lock.front would go from locked to unlocked");
+        expect(result.message).toContain(
+            "A real call would not run yet: it needs user confirmation " +
+                "(lock.unlock is listed in requireConfirmation.services) and would return a pending action.",
+        );
+
+        const approved = await client.callService("lock", "unlock", "lock.front", undefined, {
+            dryRun: true,
+            confirmed: true,
+        });
+        expect(approved.message).not.toContain("confirmation");
+    });
+});
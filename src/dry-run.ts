@@ -0,0 +1,99 @@
+/**
+ * Dry-run predictions — describe what a service call would do to an entity
+ * without calling Home Assistant, based on its current state and the data.
+ */
+
+import type { HAEntity } from "./ha-client.js";
+
+/** Services whose resulting state doesn't depend on the current state. */
+const TARGET_STATES: Record<string, string> = {
+    turn_on: "on",
+    turn_off: "off",
+    lock: "locked",
+    unlock: "unlocked",
+    open: "open",
+    open_cover: "open",
+    close_cover: "closed",
+    open_valve: "open",
+    close_valve: "closed",
+    media_play: "playing",
+    media_pause: "paused",
+    media_stop: "idle",
+    alarm_disarm: "disarmed",
+    alarm_arm_home: "armed_home",
+    alarm_arm_away: "armed_away",
+    alarm_arm_night: "armed_night",
+    alarm_arm_vacation: "armed_vacation",
+    start: "cleaning",
+    return_to_base: "returning",
+};
+
+const TOGGLE_STATES: Record<string, string> = {
+    on: "off",
+    off: "on",
+    open: "closed",
+    closed: "open",
+    playing: "paused",
+    paused: "playing",
+};
+
+function predictState(service: string, current: string | undefined, data: Record<string, unknown>): string | null {
+    if (service === "toggle") return current ? (TOGGLE_STATES[current] ?? null) : null;
+    if (service === "set_hvac_mode" && data.hvac_mode !== undefined) return String(data.hvac_mode);
+    if (service === "set_value" && data.value !== undefined) return String(data.value);
+    if (service === "select_option" && data.option !== undefined) return String(data.option);
+    return TARGET_STATES[service] ?? null;
+}
+
+/** Human-readable settings from service data (brightness, position, temperature, ...). */
+function describeData(data: Record<string, unknown>): string[] {
+    const details: string[] = [];
+    if (typeof data.brightness_pct === "number") details.push(`${data.brightness_pct}% brightness`);
+    else if (typeof data.brightness === "number") details.push(`${Math.round((data.brightness / 255) * 100)}% brightness`);
+    if (data.color_temp_kelvin !== undefined) details.push(`color temperature ${String(data.color_temp_kelvin)}K`);
+    if (Array.isArray(data.rgb_color)) details.push(`color rgb(${data.rgb_color.join(", ")})`);
+    if (data.color_name !== undefined) details.push(`color ${String(data.color_name)}`);
+    if (data.effect !== undefined) details.push(`effect ${String(data.effect)}`);
+    if (data.position !== undefined) details.push(`position ${String(data.position)}%`);
+    if (data.percentage !== undefined) details.push(`speed ${String(data.percentage)}%`);
+    if (data.temperature !== undefined) details.push(`target temperature ${String(data.temperature)}`);
+    if (data.target_temp_low !== undefined && data.target_temp_high !== undefined) {
+        details.push(`target range ${String(data.target_temp_low)}–${String(data.target_temp_high)}`);
+    }
+    if (typeof data.volume_level === "number") details.push(`volume ${Math.round(data.volume_level * 100)}%`);
+    return details;
+}
+
+/**
+ * Predict the effect of `domain.service` on one entity, e.g.
+ * "light.kitchen would go from off to on at 60% brightness".
+ */
+export function predictServiceEffect(
+    domain: string,
+    service: string,
+    entityId: string,
+    current: HAEntity | null,
+    data: Record<string, unknown> = {},
+): string {
+    if ((domain === "scene" || domain === "script") && service === "turn_on") {
+        return `${entityId} would be ${domain === "scene" ? "activated" : "run"}`;
+    }
+
+    const currentState = current?.state;
+    const next = predictState(service, currentState, data);
+    const details = describeData(data);
+    const detailText = details.join(", ");
+
+    if (next !== null) {
+        if (currentState === next) {
+            return details.length > 0
+                ? `${entityId} is already ${next}; it would be set to ${detailText}`
+                : `${entityId} is already ${next} (no change)`;
+        }
+        return `${entityId} would go from ${currentState ?? "unknown"} to ${next}${details.length > 0 ? ` at ${detailText}` : ""}`;
+    }
+    const currently = `${entityId} (currently ${currentState ?? "unknown"})`;
+    if (details.length > 0) return `${currently} would be set to ${detailText}`;
+    const extra = Object.keys(data).length > 0 ? ` with ${JSON.stringify(data)}` : "";
+    return `${currently} would receive ${domain}.${service}${extra}; effect not predicted`;
+}
@@ -3,17 +3,27 @@
  * Integration tests for live HA connection (skipped if no HA_URL/HA_TOKEN env vars).
  */
 
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, vi } from "vitest";
 import {
     matchesAnyPattern,
     formatEntityState,
     formatTimeAgo,
     groupEntitiesByDomain,
+    groupEntitiesByArea,
+    resolveEntityAreas,
+    expandServiceTarget,
     formatEntitiesSummary,
     formatLogbookEntries,
+    formatDuration,
+    summarizeHistory,
+    formatHistorySummaries,
+    formatStatistics,
+    statisticsUnitsFromUnitSystem,
     HAClient,
     type HAEntity,
     type HALogbookEntry,
+    type HARegistries,
+    type HAHistoryState,
 } from "./ha-client.js";
 
 // ---- Unit tests: pattern matching ----
@@ -107,6 +117,96 @@ describe("groupEntitiesByDomain", () => {
     });
 });
 
+describe("resolveEntityAreas", () => {
+    const registries: HARegistries = {
+        areas: [
+            { area_id: "kitchen", name: "Kitchen" },
+            { area_id: "bedroom", name: "Bedroom" },
+        ],
+        devices: [{ id: "dev1", name: "Hue Bridge Lamp", area_id: "bedroom" }],
+        entities: [
+            { entity_id: "light.kitchen", device_id: null, area_id: "kitchen" },
+            { entity_id: "light.lamp", device_id: "dev1", area_id: null },
+            { entity_id: "sensor.lamp_power", device_id: "dev1", area_id: "kitchen" },
+            { entity_id: "sensor.orphan", device_id: null, area_id: null },
+        ],
+    };
+
+    it("uses the entity's own area first, then its device's", () => {
+        const areas = resolveEntityAreas(registries);
+        expect(areas.get("light.kitchen")).toBe("Kitchen");
+        expect(areas.get("light.lamp")).toBe("Bedroom");
+        expect(areas.get("sensor.lamp_power")).toBe("Kitchen");
+        expect(areas.has("sensor.orphan")).toBe(false);
+    });
+});
+
+describe("expandServiceTarget", () => {
+    const registries: HARegistries = {
+        areas: [{ area_id: "kitchen", name: "Kitchen" }],
+        devices: [{ id: "dev1", name: "Strip", area_id: "kitchen" }],
+        entities: [
+            { entity_id: "light.ceiling", device_id: null, area_id: "kitchen" },
+            { entity_id: "light.strip", device_id: "dev1", area_id: null },
+            { entity_id: "switch.strip_power", device_id: "dev1", area_id: null },
+            { entity_id: "light.old", device_id: null, area_id: "kitchen", disabled_by: "user" },
+            { entity_id: "light.spare", device_id: null, area_id: "kitchen", hidden_by: "user" },
+            { entity_id: "switch.strip_child_lock", device_id: "dev1", area_id: null, entity_category: "config" },
+        ],
+    };
+
+    it("passes plain entity IDs through without registries", () => {
+        const result = expandServiceTarget(null, "light", { entity_id: ["light.a", "light.b"] });
+        expect(result.entityIds).toEqual(["light.a", "light.b"]);
+        expect(result.unresolved).toEqual([]);
+    });
+
+    it("expands areas by ID or name to entities of the service domain", () => {
+        const byName = expandServiceTarget(registries, "light", { area_id: "kitchen" });
+        expect(byName.entityIds).toEqual(["light.ceiling", "light.strip"]);
+        const byLabel = expandServiceTarget(registries, "light", { area_id: "Kitchen" });
+        expect(byLabel.entityIds).toEqual(["light.ceiling", "light.strip"]);
+    });
+
+    it("expands devices and reports unknown targets", () => {
+        const result = expandServiceTarget(registries, "switch", {
+            device_id: ["dev1", "nope"],
+            area_id: "garage",
+        });
+        expect(result.entityIds).toEqual(["switch.strip_power"]);
+        expect(result.unresolved.map((u) => u.target)).toEqual(["area:garage", "device:nope"]);
+    });
+
+    it("leaves out hidden and config/diagnostic entities unless named", () => {
+        expect(expandServiceTarget(registries, "light", { area_id: "kitchen" }).entityIds).not.toContain(
+            "light.spare",
+        );
+        const result = expandServiceTarget(registries, "switch", {
+            entity_id: "switch.strip_child_lock",
+            area_id: "kitchen",
+        });
+        expect(result.entityIds).toEqual(["switch.strip_child_lock", "switch.strip_power"]);
+        expect(expandServiceTarget(registries, "homeassistant", { device_id: "dev1" }).entityIds).toEqual([
+            "light.strip",
+            "switch.strip_power",
+        ]);
+    });
+});
+
+describe("groupEntitiesByArea", () => {
+    it("groups by resolved area, falling back to attribute then Other", () => {
+        const entities: HAEntity[] = [
+            { entity_id: "light.kitchen", state: "on", attributes: {}, last_changed: "", last_updated: "" },
+            { entity_id: "light.legacy", state: "on", attributes: { area: "Garage" }, last_changed: "", last_updated: "" },
+            { entity_id: "sensor.x", state: "1", attributes: {}, last_changed: "", last_updated: "" },
+        ];
+        const groups = groupEntitiesByArea(entities, new Map([["light.kitchen", "Kitchen"]]));
+        expect(groups.get("Kitchen")?.map((e) => e.entity_id)).toEqual(["light.kitchen"]);
+        expect(groups.get("Garage")?.map((e) => e.entity_id)).toEqual(["light.legacy"]);
+        expect(groups.get("Other")?.map((e) => e.entity_id)).toEqual(["sensor.x"]);
+    });
+});
+
 describe("formatEntitiesSummary", () => {
     it("respects maxEntities", () => {
         const entities: HAEntity[] = Array.from({ length: 10 }, (_, i) => ({
@@ -137,6 +237,130 @@ describe("formatLogbookEntries", () => {
     });
 });
 
+describe("formatDuration", () => {
+    it("formats seconds, minutes, hours and days", () => {
+        expect(formatDuration(45_000)).toBe("45s");
+        expect(formatDuration(5 * 60_000)).toBe("5m");
+        expect(formatDuration(110 * 60_000)).toBe("1h 50m");
+        expect(formatDuration(50 * 3_600_000)).toBe("2d 2h");
+    });
+});
+
+describe("summarizeHistory", () => {
+    const start = "2026-01-01T00:00:00.000Z";
+    const end = "2026-01-01T04:00:00.000Z";
+
+    it("computes numeric stats with a time-weighted mean", () => {
+        const series: HAHistoryState[] = [
+            {
+                entity_id: "sensor.temp",
+                state: "20",
+                attributes: { friendly_name: "Temp", unit_of_measurement: "°C" },
+                last_changed: "2025-12-31T23:00:00.000Z",
+            },
+            { state: "24", last_changed: "2026-01-01T03:00:00.000Z" },
+        ];
+        const summary = summarizeHistory(series, start, end, 4)!;
+        expect(summary.numeric?.min).toBe(20);
+        expect(summary.numeric?.max).toBe(24);
+        // 3h at 20 + 1h at 24
+        expect(summary.numeric?.mean).toBe(21);
+        expect(summary.numeric?.samples.map((p) => p.value)).toEqual([20, 20, 20, 24]);
+        expect(summary.changes).toBe(1);
+    });
+
+    it("downsamples to at most maxSamples points", () => {
+        const series: HAHistoryState[] = Array.from({ length: 240 }, (_, i) => ({
+            entity_id: i === 0 ? "sensor.temp" : undefined,
+            state: String(i % 10),
+            last_changed: new Date(new Date(start).getTime() + i * 60_000).toISOString(),
+        }));
+        const summary = summarizeHistory(series, start, end, 12)!;
+        expect(summary.numeric?.samples.length).toBeLessThanOrEqual(12);
+    });
+
+    it("reports time in each state for non-numeric entities", () => {
+        const series: HAHistoryState[] = [
+            { entity_id: "binary_sensor.door", state: "off", last_changed: start },
+            { state: "on", last_changed: "2026-01-01T01:00:00.000Z" },
+            { state: "off", last_changed: "2026-01-01T01:30:00.000Z" },
+        ];
+        const summary = summarizeHistory(series, start, end)!;
+        expect(summary.numeric).toBeUndefined();
+        expect(summary.stateDurations).toEqual({ off: 3.5 * 3_600_000, on: 30 * 60_000 });
+        expect(summary.changes).toBe(2);
+        expect(formatHistorySummaries([summary])).toContain("off 3h 30m, on 30m");
+    });
+});
+
+describe("statisticsUnitsFromUnitSystem", () => {
+    it("maps unit_system keys to statistics unit classes", () => {
+        const units = statisticsUnitsFromUnitSystem({
+            length: "mi",
+            temperature: "°F",
+            volume: "gal",
+            wind_speed: "mph",
+        });
+        expect(units).toEqual({ distance: "mi", temperature: "°F", volume: "gal", speed: "mph" });
+    });
+
+    it("returns empty units when unit_system is missing", () => {
+        expect(statisticsUnitsFromUnitSystem(undefined)).toEqual({});
+    });
+});
+
+describe("formatStatistics", () => {
+    it("shows per-period change and total for sum statistics", () => {
+        const result = formatStatistics(
+            {
+                "sensor.heat_pump_energy": [
+                    { start: Date.UTC(2026, 0, 1), end: Date.UTC(2026, 0, 2), change: 12.5 },
+                    { start: Date.UTC(2026, 0, 2), end: Date.UTC(2026, 0, 3), change: 10 },
+                ],
+            },
+            new Map([
+                [
+                    "sensor.heat_pump_energy",
+                    {
+                        statistic_id: "sensor.heat_pump_energy",
+                        name: "Heat Pump",
+                        source: "recorder",
+                        has_mean: false,
+                        has_sum: true,
+                        statistics_unit_of_measurement: "kWh",
+                    },
+                ],
+            ]),
+            "day",
+            { timeZone: "UTC" },
+        );
+        expect(result).toContain("Total: 22.5 kWh");
+        expect(result).toContain("2026-01-01: 12.5 kWh");
+    });
+
+    it("uses the converted unit for the statistic's unit class", () => {
+        const result = formatStatistics(
+            { "sensor.temp": [{ start: Date.UTC(2026, 0, 1), end: Date.UTC(2026, 1, 1), mean: 68, min: 60, max: 75 }] },
+            new Map([
+                [
+                    "sensor.temp",
+                    {
+                        statistic_id: "sensor.temp",
+                        source: "recorder",
+                        has_mean: true,
+                        has_sum: false,
+                        statistics_unit_of_measurement: "°C",
+                        unit_class: "temperature",
+                    },
+                ],
+            ]),
+            "month",
+            { timeZone: "UTC", units: { temperature: "°F" } },
+        );
+        expect(result).toContain("2026-01: mean 68, min 60, max 75 °F");
+    });
+});
+
 // ---- Unit tests: HAClient ACL ----
 
 describe("HAClient ACL", () => {
@@ -158,6 +382,90 @@ describe("HAClient ACL", () => {
         expect(filtered.map((e) => e.entity_id)).toEqual(["light.room", "sensor.temp"]);
     });
 
+    it("refuses non-writable and blocked targets without calling HA", async () => {
+        const client = new HAClient({
+            url: "http://fake",
+            token: "fake",
+            blockedEntities: ["light.secret"],
+            writableDomains: [],
+        });
+        const result = await client.callService("light", "turn_on", {
+            entity_id: ["light.room", "light.secret"],
+        });
+        expect(result.success).toBe(false);
+        expect(result.refused).toEqual([
+            { target: "light.room", reason: 'domain "light" is not in writableDomains' },
+            { target: "light.secret", reason: "blocked by ACL (blockedEntities)" },
+        ]);
+    });
+
+    it("drops blocked entities expanded from an area without naming them", async () => {
+        const client = new HAClient({
+            url: "http://fake",
+            token: "fake",
+            blockedEntities: ["light.secret"],
+            writableDomains: [],
+        });
+        vi.spyOn(client, "getRegistries").mockResolvedValue({
+            areas: [{ area_id: "kitchen", name: "Kitchen" }],
+            devices: [],
+            entities: [
+                { entity_id: "light.kitchen", device_id: null, area_id: "kitchen" },
+                { entity_id: "light.secret", device_id: null, area_id: "kitchen" },
+            ],
+        });
+        const result = await client.callService("light", "turn_on", { area_id: "kitchen" });
+        expect(result.refused).toEqual([
+            { target: "light.kitchen", reason: 'domain "light" is not in writableDomains' },
+        ]);
+        expect(result.message).not.toContain("light.secret");
+    });
+
+    it("remembers a failed registry fetch for a while", async () => {
+        vi.useFakeTimers({ toFake: ["Date"] });
+        try {
+            const client = new HAClient({ url: "http://fake", token: "fake", blockedEntities: [], writableDomains: [] });
+            const wsCommands = vi
+                .spyOn(client as unknown as { wsCommands: () => Promise<unknown> }, "wsCommands")
+                .mockRejectedValue(new Error("WebSocket timeout"));
+
+            expect(await client.getEntityAreas()).toEqual(new Map());
+            expect(await client.getEntityAreas()).toEqual(new Map());
+            await expect(client.getRegistries()).rejects.toThrow("WebSocket timeout");
+            expect(wsCommands).toHaveBeenCalledTimes(1);
+
+            vi.advanceTimersByTime(30_000);
+            wsCommands.mockResolvedValue([[{ area_id: "kitchen", name: "Kitchen" }], [], []]);
+            expect((await client.getRegistries()).areas).toHaveLength(1);
+            expect(wsCommands).toHaveBeenCalledTimes(2);
+        } finally {
+            vi.useRealTimers();
+        }
+    });
+
+    it("filterEntities redacts attributes of visible entities", () => {
+        const client = new HAClient({
+            url: "http://fake",
+            token: "fake",
+            blockedEntities: ["person.guest"],
+            writableDomains: [],
+            redactedAttributes: { "person.*": ["latitude", "longitude"] },
+        });
+        const entities: HAEntity[] = [
+            {
+                entity_id: "person.alice",
+                state: "home",
+                attributes: { friendly_name: "Alice", latitude: 1, longitude: 2 },
+                last_changed: "",
+                last_updated: "",
+            },
+            { entity_id: "person.guest", state: "away", attributes: {}, last_changed: "", last_updated: "" },
+        ];
+        const result = client.filterEntities(entities);
+        expect(result.map((e) => e.entity_id)).toEqual(["person.alice"]);
+        expect(result[0]!.attributes).toEqual({ friendly_name: "Alice" });
+    });
+
     it("isConfigured returns false for empty url/token", () => {
         const client = new HAClient({ url: "", token: "", blockedEntities: [], writableDomains: [] });
         expect(client.isConfigured).toBe(false);
@@ -1,11 +1,39 @@
 /**
- * Home Assistant REST API client with ACL filtering.
+ * Home Assistant REST + WebSocket API client with ACL filtering.
  *
  * All entity/service operations respect the plugin's ACL config:
  * - blockedEntities: glob patterns for entities to hide entirely
  * - writableDomains: domains where service calls are allowed (empty = read-only)
+ * - serviceRules: per-service / per-entity allow and deny rules (see acl.ts)
+ * - requireConfirmation: calls that wait for user approval instead of running
+ * - redactedAttributes: attributes stripped from every entity returned
+ * - valuePolicies: bounds on service data values, clamped or rejected (see value-policy.ts)
+ * - rateLimits / dailyQuota: caps on how often services may be called (see rate-limiter.ts)
+ *
+ * Service call attempts are recorded in the audit log (see audit-log.ts).
  */
 
+import {
+    callableDomains,
+    confirmationReason,
+    evaluateServiceAccess,
+    explainEntityAccess,
+    isServiceCallable,
+    redactAttributes,
+    type AccessExplanation,
+    type ConfirmationPolicy,
+    type RedactedAttributes,
+    type ServiceACL,
+    type ServiceRule,
+    type WatchedEntities,
+} from "./acl.js";
+import { appendAuditRecord, type AuditRecord } from "./audit-log.js";
+import { RateLimiter, type RateLimitRule } from "./rate-limiter.js";
+import { predictServiceEffect } from "./dry-run.js";
+import { applyValuePolicies, type ValuePolicy } from "./value-policy.js";
+import { validateServiceCall, type HAServiceDomain } from "./service-schema.js";
+import type { HAStateCache } from "./state-cache.js";
+
 export type HAEntity = {
     entity_id: string;
     state: string;
@@ -34,10 +62,129 @@ export type HAConfig = {
     version: string;
 };
 
+/** One entry from /api/history/period (minimal_response omits attributes after the first). */
+export type HAHistoryState = {
+    entity_id?: string;
+    state: string;
+    attributes?: Record<string, unknown>;
+    last_changed: string;
+    last_updated?: string;
+};
+
+export type HAHistorySummary = {
+    entityId: string;
+    friendlyName: string;
+    unit: string;
+    start: string;
+    end: string;
+    /** Number of state changes inside the range */
+    changes: number;
+    /** Present when the entity's states are numeric */
+    numeric?: {
+        min: number;
+        max: number;
+        /** Time-weighted mean over the range */
+        mean: number;
+        first: number;
+        last: number;
+        /** Downsampled series, one bucket-average per point */
+        samples: { time: string; value: number }[];
+    };
+    /** Milliseconds spent in each state (non-numeric entities) */
+    stateDurations?: Record<string, number>;
+};
+
+export type HAStatisticsPeriod = "hour" | "day" | "month";
+
+/** Metadata from recorder/list_statistic_ids */
+export type HAStatisticMetadata = {
+    statistic_id: string;
+    name?: string | null;
+    source: string;
+    has_mean: boolean;
+    has_sum: boolean;
+    statistics_unit_of_measurement?: string | null;
+    display_unit_of_measurement?: string | null;
+    unit_class?: string | null;
+};
+
+/** One aggregated row from recorder/statistics_during_period */
+export type HAStatisticsRow = {
+    /** Epoch ms (HA 2023.3+) or ISO string (older releases) */
+    start: number | string;
+    end: number | string;
+    mean?: number | null;
+    min?: number | null;
+    max?: number | null;
+    sum?: number | null;
+    state?: number | null;
+    change?: number | null;
+};
+
+/** Service call target; each key accepts a single ID or a list. */
+export type HAServiceTarget = {
+    entity_id?: string | string[];
+    area_id?: string | string[];
+    device_id?: string | string[];
+};
+
 export type HAServiceCallResult = {
     success: boolean;
+    /** What happened: executed, refused by ACL, rejected by schema, awaiting confirmation, or dry run */
+    outcome: "executed" | "refused" | "invalid" | "pending" | "simulated";
     message: string;
     states?: HAEntity[];
+    /** Entities that passed the ACL */
+    allowed: string[];
+    /** Entities the service was actually called on */
+    executed?: string[];
+    /** Entities (or unresolved targets) that were refused, with the reason */
+    refused: { target: string; reason: string }[];
+    /** Set when the call matched requireConfirmation and was not executed */
+    pendingConfirmation?: {
+        reason: string;
+        entityIds: string[];
+        data: Record<string, unknown>;
+        expiresMinutes: number;
+    };
+};
+
+export type HAServiceCallOptions = {
+    /** The user approved this call; skip the confirmation policy */
+    confirmed?: boolean;
+    /** Tool call that requested the service call, recorded in the audit log */
+    toolCallId?: string;
+    /** Resolve, check and predict the effect, but don't call HA */
+    dryRun?: boolean;
+};
+
+export type HAArea = {
+    area_id: string;
+    name: string;
+    floor_id?: string | null;
+};
+
+export type HADevice = {
+    id: string;
+    name: string | null;
+    name_by_user?: string | null;
+    area_id: string | null;
+};
+
+export type HAEntityRegistryEntry = {
+    entity_id: string;
+    device_id: string | null;
+    area_id: string | null;
+    disabled_by?: string | null;
+    hidden_by?: string | null;
+    /** "config" or "diagnostic" for auxiliary entities, null for primary ones */
+    entity_category?: string | null;
+};
+
+export type HARegistries = {
+    areas: HAArea[];
+    devices: HADevice[];
+    entities: HAEntityRegistryEntry[];
 };
 
 export type HAClientConfig = {
@@ -45,7 +192,28 @@ export type HAClientConfig = {
     token: string;
     blockedEntities: string[];
     writableDomains: string[];
+    serviceRules?: ServiceRule[];
+    /** Services/entities whose calls need user approval */
+    requireConfirmation?: ConfirmationPolicy;
+    /** Entity glob → attribute globs removed before data leaves the client */
+    redactedAttributes?: RedactedAttributes;
+    /** Bounds on service data values */
+    valuePolicies?: ValuePolicy[];
+    /** Call limits per entity glob within a sliding window */
+    rateLimits?: RateLimitRule[];
+    /** Maximum executed service calls per day */
+    dailyQuota?: number;
+    /** Simulate every service call instead of executing it */
+    dryRun?: boolean;
+    /** Plugin state dir; enables the audit log and persisted rate-limit counters */
+    stateDir?: string;
+    /** Instance name recorded in the audit log (default "default") */
+    instanceName?: string;
     timeoutMs?: number;
+    /** How long fetched registries and service schemas are reused (default 5 min) */
+    registryTtlMs?: number;
+    /** Live state cache; read instead of /api/states while it is live */
+    stateCache?: HAStateCache;
 };
 
 /**
@@ -69,19 +237,177 @@ function extractDomain(entityId: string): string {
     return entityId.split(".")[0] ?? "";
 }
 
+/** Convert an HA base URL (http/https) to its WebSocket API endpoint. */
+export function toWebSocketUrl(baseUrl: string): string {
+    return baseUrl.replace(/\/+$/, "").replace(/^http/, "ws") + "/api/websocket";
+}
+
+/**
+ * Map HA's configured unit_system (from /api/config) to the `units`
+ * argument of recorder/statistics_during_period, so long-term statistics
+ * come back in the same units the user sees in the HA UI.
+ */
+export function statisticsUnitsFromUnitSystem(
+    unitSystem: Record<string, string> | undefined,
+): Record<string, string> {
+    if (!unitSystem) return {};
+    const mapping: Record<string, string> = {
+        temperature: "temperature",
+        pressure: "pressure",
+        volume: "volume",
+        length: "distance",
+        mass: "mass",
+        wind_speed: "speed",
+    };
+    const units: Record<string, string> = {};
+    for (const [key, unitClass] of Object.entries(mapping)) {
+        const unit = unitSystem[key];
+        if (unit) units[unitClass] = unit;
+    }
+    return units;
+}
+
+/**
+ * Resolve each registered entity to an area name.
+ * An entity's own area_id wins; otherwise it inherits its device's area.
+ */
+export function resolveEntityAreas(registries: HARegistries): Map<string, string> {
+    const areaNames = new Map(registries.areas.map((a) => [a.area_id, a.name]));
+    const deviceAreas = new Map(registries.devices.map((d) => [d.id, d.area_id]));
+    const result = new Map<string, string>();
+    for (const entry of registries.entities) {
+        const areaId =
+            entry.area_id ?? (entry.device_id ? deviceAreas.get(entry.device_id) : null) ?? null;
+        if (!areaId) continue;
+        const name = areaNames.get(areaId);
+        if (name) result.set(entry.entity_id, name);
+    }
+    return result;
+}
+
+function toList(value: string | string[] | undefined): string[] {
+    if (value === undefined) return [];
+    return (Array.isArray(value) ? value : [value]).filter(Boolean);
+}
+
+/**
+ * Expand a service target to concrete entity IDs.
+ * Areas match by area_id or (case-insensitive) name, and include entities
+ * placed there directly or via their device. Area/device expansion only
+ * picks entities of the service's domain, like HA itself does — except
+ * for the cross-domain `homeassistant` services. As in HA, disabled and
+ * hidden entities and config/diagnostic entities (e.g. a child lock
+ * switch) are left out; they can still be named by entity_id.
+ */
+export function expandServiceTarget(
+    registries: HARegistries | null,
+    domain: string,
+    target: HAServiceTarget,
+): { entityIds: string[]; unresolved: { target: string; reason: string }[] } {
+    const entityIds = new Set(toList(target.entity_id));
+    const unresolved: { target: string; reason: string }[] = [];
+    const areaIds = toList(target.area_id);
+    const deviceIds = toList(target.device_id);
+    if (areaIds.length === 0 && deviceIds.length === 0) {
+        return { entityIds: [...entityIds], unresolved };
+    }
+
+    if (!registries) {
+        for (const id of [...areaIds, ...deviceIds]) {
+            unresolved.push({ target: id, reason: "registries unavailable, could not expand target" });
+        }
+        return { entityIds: [...entityIds], unresolved };
+    }
+
+    const deviceAreas = new Map(registries.devices.map((d) => [d.id, d.area_id]));
+    const inDomain = (entityId: string) =>
+        domain === "homeassistant" || extractDomain(entityId) === domain;
+    const active = registries.entities.filter(
+        (e) => !e.disabled_by && !e.hidden_by && !e.entity_category && inDomain(e.entity_id),
+    );
+
+    for (const ref of areaIds) {
+        const area = registries.areas.find(
+            (a) => a.area_id === ref || a.name.toLowerCase() === ref.toLowerCase(),
+        );
+        if (!area) {
+            unresolved.push({ target: `area:${ref}`, reason: "unknown area" });
+            continue;
+        }
+        const matches = active.filter(
+            (e) =>
+                (e.area_id ?? (e.device_id ? deviceAreas.get(e.device_id) : null)) === area.area_id,
+        );
+        if (matches.length === 0) {
+            unresolved.push({ target: `area:${area.name}`, reason: `no ${domain} entities in this area` });
+        }
+        for (const e of matches) entityIds.add(e.entity_id);
+    }
+
+    for (const ref of deviceIds) {
+        if (!deviceAreas.has(ref)) {
+            unresolved.push({ target: `device:${ref}`, reason: "unknown device" });
+            continue;
+        }
+        const matches = active.filter((e) => e.device_id === ref);
+        if (matches.length === 0) {
+            unresolved.push({ target: `device:${ref}`, reason: `device has no ${domain} entities` });
+        }
+        for (const e of matches) entityIds.add(e.entity_id);
+    }
+
+    return { entityIds: [...entityIds], unresolved };
+}
+
+/** How long a failed registry fetch is remembered before it is retried */
+const REGISTRY_RETRY_MS = 30_000;
+
 export class HAClient {
     private readonly baseUrl: string;
     private readonly token: string;
     private readonly blockedPatterns: string[];
     private readonly writableDomains: Set<string>;
+    private readonly acl: ServiceACL;
+    private readonly confirmation: ConfirmationPolicy | undefined;
+    private readonly redactedAttributes: RedactedAttributes;
+    private readonly stateDir: string | undefined;
+    private readonly instanceName: string;
+    private readonly rateLimiter: RateLimiter;
+    private readonly dryRun: boolean;
+    private readonly valuePolicies: ValuePolicy[];
     private readonly timeoutMs: number;
+    private readonly registryTtlMs: number;
+    private registryCache: { fetchedAt: number; registries: HARegistries } | null = null;
+    private registryFailure: { failedAt: number; error: unknown } | null = null;
+    private haConfigCache: HAConfig | null = null;
+    private servicesCache: { fetchedAt: number; services: HAServiceDomain[] } | null = null;
+    private readonly stateCache: HAStateCache | undefined;
 
     constructor(config: HAClientConfig) {
         this.baseUrl = config.url.replace(/\/+$/, "");
         this.token = config.token;
         this.blockedPatterns = config.blockedEntities;
         this.writableDomains = new Set(config.writableDomains.map((d) => d.toLowerCase()));
+        this.acl = {
+            blockedEntities: this.blockedPatterns,
+            writableDomains: [...this.writableDomains],
+            serviceRules: config.serviceRules ?? [],
+        };
+        this.confirmation = config.requireConfirmation;
+        this.redactedAttributes = config.redactedAttributes ?? {};
+        this.stateDir = config.stateDir;
+        this.instanceName = config.instanceName ?? "default";
+        this.dryRun = config.dryRun ?? false;
+        this.valuePolicies = config.valuePolicies ?? [];
+        this.rateLimiter = new RateLimiter({
+            rules: config.rateLimits,
+            dailyQuota: config.dailyQuota,
+            stateDir: config.stateDir,
+            instance: this.instanceName,
+        });
         this.timeoutMs = config.timeoutMs ?? 5000;
+        this.registryTtlMs = config.registryTtlMs ?? 5 * 60_000;
+        this.stateCache = config.stateCache;
     }
 
     get isConfigured(): boolean {
@@ -94,14 +420,43 @@ export class HAClient {
         return matchesAnyPattern(entityId, this.blockedPatterns);
     }
 
-    private isWritable(entityId: string): boolean {
-        if (this.isBlocked(entityId)) return false;
-        const domain = extractDomain(entityId);
-        return this.writableDomains.has(domain);
+    /** Whether the entity is visible (not hidden by blockedEntities). */
+    isEntityVisible(entityId: string): boolean {
+        return !this.isBlocked(entityId);
+    }
+
+    /** Domains listed in writableDomains, in config order. */
+    get writableDomainList(): string[] {
+        return [...this.writableDomains];
+    }
+
+    /** Domains with at least one callable service (writableDomains + allow rules). */
+    get callableDomainList(): string[] {
+        return callableDomains(this.acl);
+    }
+
+    /** Whether `domain.service` may be called on at least some entity. */
+    canCallService(domain: string, service: string): boolean {
+        return isServiceCallable(this.acl, domain.toLowerCase(), service);
+    }
+
+    /** Explain the entity's effective tier (hidden/readable/watched/writable) and why. */
+    explainAccess(entityId: string, watched: WatchedEntities): AccessExplanation {
+        return explainEntityAccess(
+            { ...this.acl, requireConfirmation: this.confirmation, redactedAttributes: this.redactedAttributes },
+            watched,
+            entityId,
+        );
+    }
+
+    /** Strip redacted attributes from an entity (or history state). */
+    redactEntity<T extends { entity_id: string; attributes?: Record<string, unknown> }>(entity: T): T {
+        return redactAttributes(this.redactedAttributes, entity);
     }
 
+    /** Drop blocked entities and redact attributes of the rest. */
     filterEntities(entities: HAEntity[]): HAEntity[] {
-        return entities.filter((e) => !this.isBlocked(e.entity_id));
+        return entities.filter((e) => !this.isBlocked(e.entity_id)).map((e) => this.redactEntity(e));
     }
 
     // ---- HTTP ----
@@ -126,16 +481,98 @@ export class HAClient {
         return (await res.json()) as T;
     }
 
+    // ---- WebSocket ----
+
+    /**
+     * Run one or more WebSocket API commands on a short-lived connection.
+     * Used for APIs that have no REST equivalent (registries, recorder).
+     * Results are returned in the same order as the commands.
+     */
+    private wsCommands<T extends unknown[]>(commands: Record<string, unknown>[]): Promise<T> {
+        return new Promise<T>((resolve, reject) => {
+            const ws = new WebSocket(toWebSocketUrl(this.baseUrl));
+            const results = new Array<unknown>(commands.length);
+            let pending = commands.length;
+            let settled = false;
+
+            const finish = (err: Error | null) => {
+                if (settled) return;
+                settled = true;
+                clearTimeout(timer);
+                try {
+                    ws.close();
+                } catch {
+                    // ignore
+                }
+                if (err) reject(err);
+                else resolve(results as T);
+            };
+
+            const timer = setTimeout(
+                () => finish(new Error(`HA WebSocket timed out after ${this.timeoutMs}ms`)),
+                this.timeoutMs,
+            );
+
+            ws.onmessage = (event) => {
+                let msg: {
+                    type: string;
+                    id?: number;
+                    success?: boolean;
+                    result?: unknown;
+                    message?: string;
+                    error?: { code: string; message: string };
+                };
+                try {
+                    msg = JSON.parse(String(event.data));
+                } catch (err) {
+                    finish(new Error(`HA WebSocket sent invalid JSON: ${String(err)}`));
+                    return;
+                }
+
+                if (msg.type === "auth_required") {
+                    ws.send(JSON.stringify({ type: "auth", access_token: this.token }));
+                } else if (msg.type === "auth_invalid") {
+                    finish(new Error(`HA WebSocket auth failed: ${msg.message ?? "invalid token"}`));
+                } else if (msg.type === "auth_ok") {
+                    commands.forEach((cmd, i) => ws.send(JSON.stringify({ ...cmd, id: i + 1 })));
+                } else if (msg.type === "result" && typeof msg.id === "number") {
+                    if (!msg.success) {
+                        finish(new Error(`HA WebSocket ${String(commands[msg.id - 1]?.type)}: ${msg.error?.message ?? "failed"}`));
+                        return;
+                    }
+                    results[msg.id - 1] = msg.result;
+                    pending -= 1;
+                    if (pending === 0) finish(null);
+                }
+            };
+
+            ws.onerror = () => finish(new Error("HA WebSocket connection error"));
+            ws.onclose = () => finish(new Error("HA WebSocket closed before all results arrived"));
+        });
+    }
+
     // ---- Public API ----
 
     /** Verify connectivity by fetching HA config. */
     async verifyConnection(): Promise<HAConfig> {
-        return this.request<HAConfig>("/api/config");
+        const config = await this.request<HAConfig>("/api/config");
+        this.haConfigCache = config;
+        return config;
+    }
+
+    /** HA config from the last verifyConnection(), fetching it if needed. */
+    async getHAConfig(): Promise<HAConfig> {
+        return this.haConfigCache ?? this.verifyConnection();
     }
 
-    /** Get all entity states, filtered by ACL and optional patterns. */
+    /**
+     * Get all entity states, filtered by ACL and optional patterns.
+     * Served from the live state cache when available, REST otherwise.
+     */
     async getStates(patterns?: string[]): Promise<HAEntity[]> {
-        const all = await this.request<HAEntity[]>("/api/states");
+        const all = this.stateCache?.isLive
+            ? this.stateCache.all()
+            : await this.request<HAEntity[]>("/api/states");
         let filtered = this.filterEntities(all);
 
         if (patterns && patterns.length > 0 && !(patterns.length === 1 && patterns[0] === "*")) {
@@ -154,42 +591,342 @@ export class HAClient {
     async getState(entityId: string): Promise<HAEntity | null> {
         if (this.isBlocked(entityId)) return null;
         try {
-            return await this.request<HAEntity>(`/api/states/${entityId}`);
+            const entity = this.stateCache?.isLive
+                ? this.stateCache.get(entityId)
+                : await this.request<HAEntity>(`/api/states/${entityId}`);
+            return entity ? this.redactEntity(entity) : null;
         } catch {
             return null;
         }
     }
 
-    /** Call a HA service. Enforces writableDomains ACL. */
+    /**
+     * Call a HA service. The target may be a single entity ID or a set of
+     * entities, areas and devices; each is expanded to concrete entities and
+     * checked against the ACL individually. Refused entities are reported,
+     * and only the permitted ones are sent to HA.
+     *
+     * Calls matching the confirmation policy are not executed unless
+     * `options.confirmed` is set; the result carries `pendingConfirmation`.
+     *
+     * In dry-run mode (global or `options.dryRun`) the call is resolved and
+     * checked as usual but not sent; the message predicts the effect instead,
+     * and says if the real call would wait for confirmation.
+     *
+     * Every attempt, including refused and failed ones, is appended to the
+     * audit log when a state dir is configured.
+     */
     async callService(
         domain: string,
         service: string,
-        entityId: string,
+        target: string | HAServiceTarget,
         data?: Record<string, unknown>,
+        options: HAServiceCallOptions = {},
+    ): Promise<HAServiceCallResult> {
+        const normalized: HAServiceTarget = typeof target === "string" ? { entity_id: target } : target;
+        const audit = (
+            outcome: AuditRecord["outcome"],
+            message: string,
+            decision: Pick<HAServiceCallResult, "allowed" | "refused">,
+        ) => this.audit({
+            timestamp: new Date().toISOString(),
+            instance: this.instanceName,
+            toolCallId: options.toolCallId,
+            confirmed: options.confirmed || undefined,
+            domain,
+            service,
+            target: normalized,
+            data,
+            allowed: decision.allowed,
+            refused: decision.refused,
+            outcome,
+            message,
+        });
+
+        // Filled in once the ACL has run, so failed calls keep the decision
+        const decision: Pick<HAServiceCallResult, "allowed" | "refused"> = { allowed: [], refused: [] };
+        let result: HAServiceCallResult;
+        try {
+            result = await this.executeServiceCall(domain, service, normalized, data, options, decision);
+        } catch (err) {
+            await audit("failed", String(err), decision);
+            throw err;
+        }
+        await audit(result.outcome, result.message, result);
+        return result;
+    }
+
+    private async executeServiceCall(
+        domain: string,
+        service: string,
+        normalized: HAServiceTarget,
+        data: Record<string, unknown> | undefined,
+        options: HAServiceCallOptions,
+        decision: Pick<HAServiceCallResult, "allowed" | "refused">,
     ): Promise<HAServiceCallResult> {
-        // ACL check
-        if (this.isBlocked(entityId)) {
-            return { success: false, message: `Entity ${entityId} is blocked by ACL.` };
+        const needsRegistry =
+            toList(normalized.area_id).length > 0 || toList(normalized.device_id).length > 0;
+        const registries = needsRegistry ? await this.getRegistries().catch(() => null) : null;
+        const { entityIds, unresolved } = expandServiceTarget(registries, domain, normalized);
+
+        // ACL check, per entity. Blocked entities picked up by an area/device
+        // are dropped without naming them; only named ones are refused.
+        const named = new Set(toList(normalized.entity_id));
+        const refused = [...unresolved];
+        const permitted: string[] = [];
+        for (const id of entityIds) {
+            if (!named.has(id) && this.isBlocked(id)) continue;
+            const access = evaluateServiceAccess(this.acl, domain, service, id);
+            if (access.allowed) permitted.push(id);
+            else refused.push({ target: id, reason: access.reason });
+        }
+
+        // Target keys in `data` would bypass the per-entity ACL above
+        const requestData = { ...data };
+        delete requestData.entity_id;
+        delete requestData.area_id;
+        delete requestData.device_id;
+
+        // Value policies: clamp or reject out-of-bounds data
+        const policed = applyValuePolicies(this.valuePolicies, domain, service, permitted, requestData);
+        const serviceData = policed.data;
+        refused.push(...policed.refused);
+        const adjustedText =
+            policed.adjustments.length > 0 ? ` Adjusted: ${policed.adjustments.join(", ")}.` : "";
+
+        // Rate limits and daily quota. The check counts the call at once, so
+        // it is released below whenever the call is not sent to HA.
+        const checkedAt = Date.now();
+        const limits = await this.rateLimiter.check(policed.allowed, checkedAt);
+        const allowed = limits.allowed;
+        refused.push(...limits.refused);
+        decision.allowed = allowed;
+        decision.refused = refused;
+
+        const refusedText =
+            refused.length > 0
+                ? `Refused: ${refused.map((r) => `${r.target} (${r.reason})`).join(", ")}.`
+                : "";
+
+        if (allowed.length === 0) {
+            const message =
+                entityIds.length === 0 && unresolved.length === 0
+                    ? `No target given for ${domain}.${service}.`
+                    : `Nothing to call for ${domain}.${service}. ${refusedText}` +
+                      (refused.some((r) => r.reason.includes("writableDomains"))
+                          ? " Ask the user to grant write access."
+                          : "");
+            return { success: false, outcome: "refused", message: message.trim(), allowed, executed: [], refused };
+        }
+
+        // Schema check — skipped if /api/services is unavailable
+        const services = await this.getServices().catch(() => null);
+        if (services) {
+            const error = validateServiceCall(services, domain, service, serviceData);
+            if (error) {
+                await this.rateLimiter.release(allowed, checkedAt);
+                return { success: false, outcome: "invalid", message: error, allowed, executed: [], refused };
+            }
         }
-        if (!this.isWritable(entityId)) {
+
+        const confirmReason = options.confirmed
+            ? null
+            : confirmationReason(this.confirmation, domain, service, allowed);
+
+        // Dry run: everything above ran for real, but nothing is sent to HA
+        if (this.dryRun || options.dryRun) {
+            await this.rateLimiter.release(allowed, checkedAt);
+            const predictions = await Promise.all(
+                allowed.map(async (id) =>
+                    predictServiceEffect(domain, service, id, await this.getState(id), serviceData),
+                ),
+            );
+            return {
+                success: true,
+                outcome: "simulated",
+                message:
+                    `[dry run] ${domain}.${service} was not sent to Home Assistant.${adjustedText} Predicted effect:\n` +
+                    predictions.map((p) => `- ${p}`).join("\n") +
+                    (confirmReason
+                        ? `\nA real call would not run yet: it needs user confirmation (${confirmReason}) ` +
+                          "and would return a pending action."
+                        : "") +
+                    (refusedText ? `\n${refusedText}` : ""),
+                allowed,
+                executed: [],
+                refused,
+            };
+        }
+
+        if (confirmReason) {
+            await this.rateLimiter.release(allowed, checkedAt);
             return {
                 success: false,
-                message: `Domain "${domain}" is not in writableDomains. Ask the user to grant write access.`,
+                outcome: "pending",
+                message: `${domain}.${service} on ${allowed.join(", ")} requires user confirmation (${confirmReason}).${adjustedText}`,
+                allowed,
+                executed: [],
+                refused,
+                pendingConfirmation: {
+                    reason: confirmReason,
+                    entityIds: allowed,
+                    data: serviceData,
+                    expiresMinutes: this.confirmation?.expiresMinutes ?? 10,
+                },
             };
         }
 
-        const result = await this.request<HAEntity[]>(`/api/services/${domain}/${service}`, {
-            method: "POST",
-            body: JSON.stringify({ entity_id: entityId, ...data }),
-        });
+        let result: HAEntity[];
+        try {
+            result = await this.request<HAEntity[]>(`/api/services/${domain}/${service}`, {
+                method: "POST",
+                body: JSON.stringify({ entity_id: allowed, ...serviceData }),
+            });
+        } catch (err) {
+            await this.rateLimiter.release(allowed, checkedAt);
+            throw err;
+        }
 
         return {
             success: true,
-            message: `Called ${domain}.${service} on ${entityId}.`,
+            outcome: "executed",
+            message: `Called ${domain}.${service} on ${allowed.join(", ")}.${adjustedText}${refusedText ? ` ${refusedText}` : ""}`,
             states: Array.isArray(result) ? this.filterEntities(result) : undefined,
+            allowed,
+            executed: allowed,
+            refused,
         };
     }
 
+    /** Append to the audit log; a failed write never fails the service call. */
+    private async audit(record: AuditRecord): Promise<void> {
+        if (!this.stateDir) return;
+        await appendAuditRecord(this.stateDir, record).catch(() => undefined);
+    }
+
+    /** Fetch service definitions with their field schemas (cached for registryTtlMs). */
+    async getServices(): Promise<HAServiceDomain[]> {
+        if (this.servicesCache && Date.now() - this.servicesCache.fetchedAt < this.registryTtlMs) {
+            return this.servicesCache.services;
+        }
+        const services = await this.request<HAServiceDomain[]>("/api/services");
+        this.servicesCache = { fetchedAt: Date.now(), services };
+        return services;
+    }
+
+    /**
+     * Fetch the area, device and entity registries (cached for registryTtlMs).
+     * A failure is cached for REGISTRY_RETRY_MS, so an unreachable WebSocket
+     * doesn't cost every caller a full timeout.
+     */
+    async getRegistries(): Promise<HARegistries> {
+        if (this.registryCache && Date.now() - this.registryCache.fetchedAt < this.registryTtlMs) {
+            return this.registryCache.registries;
+        }
+        if (this.registryFailure && Date.now() - this.registryFailure.failedAt < REGISTRY_RETRY_MS) {
+            throw this.registryFailure.error;
+        }
+        try {
+            const [areas, devices, entities] = await this.wsCommands<
+                [HAArea[], HADevice[], HAEntityRegistryEntry[]]
+            >([
+                { type: "config/area_registry/list" },
+                { type: "config/device_registry/list" },
+                { type: "config/entity_registry/list" },
+            ]);
+            const registries = { areas, devices, entities };
+            this.registryCache = { fetchedAt: Date.now(), registries };
+            this.registryFailure = null;
+            return registries;
+        } catch (err) {
+            this.registryFailure = { failedAt: Date.now(), error: err };
+            throw err;
+        }
+    }
+
+    /**
+     * Map of entity_id → area name, resolved through the registries.
+     * Returns an empty map if the registries can't be fetched, so callers
+     * degrade to attribute-based grouping instead of failing.
+     */
+    async getEntityAreas(): Promise<Map<string, string>> {
+        try {
+            return resolveEntityAreas(await this.getRegistries());
+        } catch {
+            return new Map();
+        }
+    }
+
+    /**
+     * Get raw state history for the given entities, one array per entity.
+     * Blocked entities are dropped before the request is made.
+     */
+    async getHistory(
+        entityIds: string[],
+        startTime: string,
+        endTime?: string,
+    ): Promise<HAHistoryState[][]> {
+        const allowed = entityIds.filter((id) => !this.isBlocked(id));
+        if (allowed.length === 0) return [];
+
+        const params = new URLSearchParams();
+        params.set("filter_entity_id", allowed.join(","));
+        if (endTime) params.set("end_time", endTime);
+        params.set("minimal_response", "");
+        const path = `/api/history/period/${encodeURIComponent(startTime)}?${params.toString()}`;
+
+        const result = await this.request<HAHistoryState[][]>(path);
+        return result
+            .filter((series) => {
+                const id = series[0]?.entity_id;
+                return Boolean(id) && !this.isBlocked(id!);
+            })
+            .map((series) => {
+                // minimal_response omits entity_id after the first state
+                const id = series[0]!.entity_id!;
+                return series.map((s) => this.redactEntity({ ...s, entity_id: s.entity_id ?? id }));
+            });
+    }
+
+    /** List long-term statistic IDs, filtered by ACL. */
+    async listStatisticIds(statisticType?: "mean" | "sum"): Promise<HAStatisticMetadata[]> {
+        const [result] = await this.wsCommands<[HAStatisticMetadata[]]>([
+            {
+                type: "recorder/list_statistic_ids",
+                ...(statisticType ? { statistic_type: statisticType } : {}),
+            },
+        ]);
+        return result.filter((m) => !this.isBlocked(m.statistic_id));
+    }
+
+    /**
+     * Get aggregated long-term statistics. Units follow HA's unit_system,
+     * so temperatures, volumes etc. match what the user sees in the UI.
+     */
+    async getStatistics(
+        statisticIds: string[],
+        startTime: string,
+        endTime: string | undefined,
+        period: HAStatisticsPeriod,
+    ): Promise<Record<string, HAStatisticsRow[]>> {
+        const allowed = statisticIds.filter((id) => !this.isBlocked(id));
+        if (allowed.length === 0) return {};
+
+        const haConfig = await this.getHAConfig();
+        const [result] = await this.wsCommands<[Record<string, HAStatisticsRow[]>]>([
+            {
+                type: "recorder/statistics_during_period",
+                start_time: startTime,
+                ...(endTime ? { end_time: endTime } : {}),
+                statistic_ids: allowed,
+                period,
+                types: ["mean", "min", "max", "change"],
+                units: statisticsUnitsFromUnitSystem(haConfig.unit_system),
+            },
+        ]);
+        return result ?? {};
+    }
+
     /** Get logbook entries. */
     async getLogbook(
         startTime: string,
@@ -239,6 +976,17 @@ export function formatTimeAgo(isoTime: string): string {
     return `${days}d ago`;
 }
 
+export function formatDuration(ms: number): string {
+    const totalSeconds = Math.max(0, Math.round(ms / 1000));
+    if (totalSeconds < 60) return `${totalSeconds}s`;
+    const minutes = Math.floor(totalSeconds / 60);
+    if (minutes < 60) return `${minutes}m`;
+    const hours = Math.floor(minutes / 60);
+    if (hours < 24) return minutes % 60 ? `${hours}h ${minutes % 60}m` : `${hours}h`;
+    const days = Math.floor(hours / 24);
+    return hours % 24 ? `${days}d ${hours % 24}h` : `${days}d`;
+}
+
 export function groupEntitiesByDomain(entities: HAEntity[]): Map<string, HAEntity[]> {
     const groups = new Map<string, HAEntity[]>();
     for (const e of entities) {
@@ -250,12 +998,17 @@ export function groupEntitiesByDomain(entities: HAEntity[]): Map<string, HAEntit
     return groups;
 }
 
+/**
+ * Group entities by area. `areas` comes from `HAClient.getEntityAreas()`;
+ * the legacy `area` attribute is used for entities not in the registry.
+ */
 export function groupEntitiesByArea(
     entities: HAEntity[],
+    areas?: Map<string, string>,
 ): Map<string, HAEntity[]> {
     const groups = new Map<string, HAEntity[]>();
     for (const e of entities) {
-        const area = (e.attributes.area as string) ?? "Other";
+        const area = areas?.get(e.entity_id) ?? (e.attributes.area as string) ?? "Other";
         const arr = groups.get(area) ?? [];
         arr.push(e);
         groups.set(area, arr);
@@ -265,14 +1018,14 @@ export function groupEntitiesByArea(
 
 export function formatEntitiesSummary(
     entities: HAEntity[],
-    opts?: { groupByArea?: boolean; maxEntities?: number },
+    opts?: { groupByArea?: boolean; maxEntities?: number; areas?: Map<string, string> },
 ): string {
     const max = opts?.maxEntities ?? 50;
     const limited = entities.slice(0, max);
     const lines: string[] = [];
 
     if (opts?.groupByArea) {
-        const groups = groupEntitiesByArea(limited);
+        const groups = groupEntitiesByArea(limited, opts.areas);
         for (const [area, areaEntities] of groups) {
             lines.push(`### ${area}`);
             for (const e of areaEntities) {
@@ -308,3 +1061,228 @@ export function formatLogbookEntries(entries: HALogbookEntry[]): string {
     });
     return lines.join("\n");
 }
+
+// ---- History summaries ----
+
+const NON_VALUE_STATES = new Set(["unavailable", "unknown", ""]);
+
+function roundValue(n: number): number {
+    return Math.round(n * 100) / 100;
+}
+
+/**
+ * Reduce a raw history series to compact statistics.
+ * Numeric entities get min/max/time-weighted mean and a series downsampled
+ * to at most `maxSamples` points; others get time spent in each state.
+ */
+export function summarizeHistory(
+    series: HAHistoryState[],
+    startTime: string,
+    endTime: string,
+    maxSamples = 24,
+): HAHistorySummary | null {
+    const first = series[0];
+    if (!first?.entity_id) return null;
+
+    const startMs = new Date(startTime).getTime();
+    const endMs = new Date(endTime).getTime();
+    const attrs = first.attributes ?? {};
+
+    // Each state holds from its last_changed (clamped to the range) until the next one
+    const spans = series.map((s, i) => {
+        const from = Math.max(startMs, new Date(s.last_changed).getTime());
+        const next = series[i + 1];
+        const to = next ? Math.min(endMs, new Date(next.last_changed).getTime()) : endMs;
+        return { state: s.state, from, to: Math.max(from, to) };
+    });
+
+    let changes = 0;
+    for (let i = 1; i < series.length; i++) {
+        if (series[i]!.state !== series[i - 1]!.state) changes++;
+    }
+
+    const summary: HAHistorySummary = {
+        entityId: first.entity_id,
+        friendlyName: (attrs.friendly_name as string) ?? first.entity_id,
+        unit: (attrs.unit_of_measurement as string) ?? "",
+        start: new Date(startMs).toISOString(),
+        end: new Date(endMs).toISOString(),
+        changes,
+    };
+
+    const valued = spans.filter((s) => !NON_VALUE_STATES.has(s.state));
+    const numericSpans = valued
+        .map((s) => ({ ...s, value: Number(s.state) }))
+        .filter((s) => Number.isFinite(s.value));
+
+    if (numericSpans.length > 0 && numericSpans.length === valued.length) {
+        const values = numericSpans.map((s) => s.value);
+        let weighted = 0;
+        let weight = 0;
+        for (const s of numericSpans) {
+            weighted += s.value * (s.to - s.from);
+            weight += s.to - s.from;
+        }
+        const mean = weight > 0 ? weighted / weight : values.reduce((a, b) => a + b, 0) / values.length;
+
+        // Downsample: average the points inside each bucket, carrying the
+        // previous value through buckets with no change.
+        const bucketCount = Math.max(1, maxSamples);
+        const bucketMs = Math.max(1, (endMs - startMs) / bucketCount);
+        const samples: { time: string; value: number }[] = [];
+        let carry = numericSpans[0]!.value;
+        let idx = 0;
+        for (let b = 0; b < bucketCount; b++) {
+            const bucketEnd = startMs + (b + 1) * bucketMs;
+            const inBucket: number[] = [];
+            while (idx < numericSpans.length && numericSpans[idx]!.from < bucketEnd) {
+                inBucket.push(numericSpans[idx]!.value);
+                idx++;
+            }
+            if (inBucket.length > 0) {
+                carry = inBucket[inBucket.length - 1]!;
+                samples.push({
+                    time: new Date(startMs + b * bucketMs).toISOString(),
+                    value: roundValue(inBucket.reduce((a, c) => a + c, 0) / inBucket.length),
+                });
+            } else if (samples.length > 0) {
+                samples.push({ time: new Date(startMs + b * bucketMs).toISOString(), value: roundValue(carry) });
+            }
+        }
+
+        summary.numeric = {
+            min: Math.min(...values),
+            max: Math.max(...values),
+            mean: roundValue(mean),
+            first: values[0]!,
+            last: values[values.length - 1]!,
+            samples,
+        };
+    } else {
+        const durations: Record<string, number> = {};
+        for (const s of spans) {
+            durations[s.state] = (durations[s.state] ?? 0) + (s.to - s.from);
+        }
+        summary.stateDurations = durations;
+    }
+
+    return summary;
+}
+
+export function formatHistorySummaries(summaries: HAHistorySummary[]): string {
+    if (summaries.length === 0) return "No history found for the given entities and time range.";
+
+    const lines: string[] = [];
+    for (const s of summaries) {
+        const unit = s.unit ? ` ${s.unit}` : "";
+        const header = `- ${s.friendlyName} (\`${s.entityId}\`)`;
+        if (s.numeric) {
+            const n = s.numeric;
+            lines.push(
+                `${header}: min ${n.min}${unit}, max ${n.max}${unit}, mean ${n.mean}${unit}, ` +
+                    `now ${n.last}${unit}, ${s.changes} changes`,
+            );
+            if (n.samples.length > 1) {
+                const multiDay = new Date(s.end).getTime() - new Date(s.start).getTime() > 86_400_000;
+                const points = n.samples.map((p) => {
+                    const d = new Date(p.time);
+                    const label = multiDay
+                        ? d.toLocaleString([], { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" })
+                        : d.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+                    return `${label} ${p.value}`;
+                });
+                lines.push(`  Trend: ${points.join(", ")}`);
+            }
+        } else {
+            const durations = Object.entries(s.stateDurations ?? {})
+                .sort((a, b) => b[1] - a[1])
+                .map(([state, ms]) => `${state} ${formatDuration(ms)}`)
+                .join(", ");
+            lines.push(`${header}: ${s.changes} changes; ${durations || "no data"}`);
+        }
+    }
+    return lines.join("\n");
+}
+
+// ---- Long-term statistics ----
+
+function formatStatisticsTime(
+    value: number | string,
+    period: HAStatisticsPeriod,
+    timeZone?: string,
+): string {
+    const d = new Date(value);
+    const opts: Intl.DateTimeFormatOptions = { timeZone, year: "numeric", month: "2-digit" };
+    if (period !== "month") opts.day = "2-digit";
+    if (period === "hour") {
+        opts.hour = "2-digit";
+        opts.minute = "2-digit";
+        opts.hourCycle = "h23";
+    }
+    return d.toLocaleString("sv-SE", opts);
+}
+
+export function formatStatisticMetadata(list: HAStatisticMetadata[]): string {
+    if (list.length === 0) return "No long-term statistics found.";
+    return list
+        .map((m) => {
+            const unit = m.display_unit_of_measurement ?? m.statistics_unit_of_measurement ?? "";
+            const kinds = [m.has_mean ? "mean" : null, m.has_sum ? "sum" : null].filter(Boolean).join("/");
+            return `- ${m.name ?? m.statistic_id} (\`${m.statistic_id}\`)${unit ? `, ${unit}` : ""} [${kinds}]`;
+        })
+        .join("\n");
+}
+
+/**
+ * Format statistics rows. Sum-type statistics (energy, water) show the
+ * per-period change and a range total; measurements show mean/min/max.
+ * Only the latest `maxRows` rows per statistic are listed.
+ */
+export function formatStatistics(
+    results: Record<string, HAStatisticsRow[]>,
+    metadata: Map<string, HAStatisticMetadata>,
+    period: HAStatisticsPeriod,
+    opts?: { timeZone?: string; maxRows?: number; units?: Record<string, string> },
+): string {
+    const ids = Object.keys(results);
+    if (ids.length === 0) return "No statistics found for the given IDs and time range.";
+
+    const maxRows = opts?.maxRows ?? 48;
+    const lines: string[] = [];
+    for (const id of ids) {
+        const rows = results[id] ?? [];
+        const meta = metadata.get(id);
+        const converted = meta?.unit_class ? opts?.units?.[meta.unit_class] : undefined;
+        const unit =
+            converted ?? meta?.display_unit_of_measurement ?? meta?.statistics_unit_of_measurement ?? "";
+        const u = unit ? ` ${unit}` : "";
+        lines.push(`### ${meta?.name ?? id} (\`${id}\`)`);
+        if (rows.length === 0) {
+            lines.push("_No data in range._");
+            continue;
+        }
+
+        const isSum = rows.some((r) => r.change != null);
+        if (isSum) {
+            const total = rows.reduce((acc, r) => acc + (r.change ?? 0), 0);
+            lines.push(`Total: ${roundValue(total)}${u} over ${rows.length} ${period}(s)`);
+        }
+        if (rows.length > maxRows) {
+            lines.push(`_Showing the latest ${maxRows} of ${rows.length} rows._`);
+        }
+        for (const r of rows.slice(-maxRows)) {
+            const label = formatStatisticsTime(r.start, period, opts?.timeZone);
+            if (isSum) {
+                lines.push(`- ${label}: ${roundValue(r.change ?? 0)}${u}`);
+            } else {
+                const parts = [
+                    r.mean != null ? `mean ${roundValue(r.mean)}` : null,
+                    r.min != null ? `min ${roundValue(r.min)}` : null,
+                    r.max != null ? `max ${roundValue(r.max)}` : null,
+                ].filter(Boolean);
+                lines.push(`- ${label}: ${parts.join(", ")}${u}`);
+            }
+        }
+    }
+    return lines.join("\n");
+}
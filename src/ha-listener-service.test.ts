@@ -0,0 +1,337 @@
+/**
+ * Tests for the listener service, driven through a fake Home Assistant
+ * WebSocket: "for" holds and catching up on events missed while
+ * disconnected, both across restarts.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import fs from "node:fs/promises";
+import path from "node:path";
+import os from "node:os";
+import { HAListenerService } from "./ha-listener-service.js";
+import { addListener, loadListeners, loadPendingFires, type ListenerInput } from "./listener-store.js";
+import type { HAEntity } from "./ha-client.js";
+import { HAStateCache } from "./state-cache.js";
+import type { CommandRunner } from "./agent-dispatch.js";
+
+// ---- Fake WebSocket ----
+
+class FakeWebSocket {
+    static readonly OPEN = 1;
+    static instances: FakeWebSocket[] = [];
+
+    readyState = FakeWebSocket.OPEN;
+    sent: Record<string, unknown>[] = [];
+    onopen: (() => void) | null = null;
+    onmessage: ((event: { data: string }) => void) | null = null;
+    onclose: (() => void) | null = null;
+    onerror: ((event: unknown) => void) | null = null;
+
+    constructor(readonly url: string) {
+        FakeWebSocket.instances.push(this);
+    }
+
+    send(data: string): void {
+        this.sent.push(JSON.parse(data) as Record<string, unknown>);
+    }
+
+    close(): void {
+        this.readyState = 3;
+        this.onclose?.();
+    }
+
+    /** Deliver a message from Home Assistant. */
+    receive(msg: Record<string, unknown>): void {
+        this.onmessage?.({ data: JSON.stringify(msg) });
+    }
+}
+
+// ---- Harness ----
+
+let tmpDir: string;
+let services: HAListenerService[];
+let runCommand: ReturnType<typeof vi.fn<CommandRunner>>;
+let logs: string[];
+
+beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "ha-listener-service-test-"));
+    services = [];
+    logs = [];
+    runCommand = vi.fn<CommandRunner>(async () => ({ code: 0, stderr: "" }));
+    FakeWebSocket.instances = [];
+    vi.stubGlobal("WebSocket", FakeWebSocket);
+    // setImmediate stays real so `until` can wait for file I/O
+    vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout", "setInterval", "clearInterval", "Date"] });
+    vi.setSystemTime(new Date("2026-03-01T12:00:00Z"));
+});
+
+afterEach(async () => {
+    for (const service of services) await service.stop();
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    await fs.rm(tmpDir, { recursive: true, force: true });
+});
+
+/** Wait (in real time) until a condition holds, e.g. a log line appears. */
+async function until(check: () => boolean | Promise<boolean>): Promise<void> {
+    const deadline = performance.now() + 2000;
+    while (!(await check())) {
+        if (performance.now() > deadline) throw new Error(`timed out; logs:\n${logs.join("\n")}`);
+        await new Promise((resolve) => setImmediate(resolve));
+    }
+}
+
+function createService(catchUpMaxAgeSeconds?: number): HAListenerService {
+    const service = new HAListenerService({
+        url: "http://ha.local:8123",
+        token: "token",
+        instance: "default",
+        defaultInstance: "default",
+        stateDir: tmpDir,
+        delivery: { agentId: "main" },
+        runCommand,
+        stateCache: new HAStateCache(),
+        catchUpMaxAgeSeconds,
+        logger: {
+            info: (msg) => logs.push(msg),
+            warn: (msg) => logs.push(msg),
+            error: (msg) => logs.push(msg),
+        },
+    });
+    services.push(service);
+    return service;
+}
+
+function entity(entityId: string, state: string, lastChanged = new Date().toISOString()): HAEntity {
+    return { entity_id: entityId, state, attributes: {}, last_changed: lastChanged, last_updated: lastChanged };
+}
+
+/** Wait until the service has handled every message received so far. */
+function idle(service: HAListenerService): Promise<void> {
+    return service["messageQueue"];
+}
+
+/** Authenticate the service's newest socket and answer get_states with `states`. */
+async function connect(service: HAListenerService, states: HAEntity[]): Promise<FakeWebSocket> {
+    const ws = FakeWebSocket.instances.at(-1)!;
+    ws.onopen?.();
+    ws.receive({ type: "auth_required", ha_version: "2026.3.0" });
+    ws.receive({ type: "auth_ok", ha_version: "2026.3.0" });
+    await idle(service);
+    const getStates = ws.sent.find((m) => m.type === "get_states")!;
+    ws.receive({ type: "result", id: getStates.id, success: true, result: states });
+    await idle(service);
+    return ws;
+}
+
+async function stateChanged(
+    service: HAListenerService,
+    ws: FakeWebSocket,
+    oldState: HAEntity,
+    newState: HAEntity,
+): Promise<void> {
+    ws.receive({
+        type: "event",
+        id: 1,
+        event: {
+            event_type: "state_changed",
+            data: { entity_id: newState.entity_id, old_state: oldState, new_state: newState },
+        },
+    });
+    await idle(service);
+}
+
+/** Trigger texts passed to `openclaw agent --message`. */
+function dispatched(): string[] {
+    return runCommand.mock.calls.map(([argv]) => argv[argv.indexOf("--message") + 1]!);
+}
+
+const garageHold: ListenerInput = {
+    entityId: "cover.garage",
+    toState: "open",
+    forSeconds: 600,
+    message: "close the garage",
+    oneShot: true,
+};
+
+// ---- "for" holds ----
+
+describe('HAListenerService "for" holds', () => {
+    it("fires once the state has held for the full duration", async () => {
+        const listener = await addListener(tmpDir, garageHold);
+        const service = createService();
+        await service.start();
+        const ws = await connect(service, [entity("cover.garage", "closed")]);
+
+        await stateChanged(service, ws, entity("cover.garage", "closed"), entity("cover.garage", "open"));
+        expect((await loadPendingFires(tmpDir)).map((f) => f.listenerId)).toEqual([listener.id]);
+
+        await vi.advanceTimersByTimeAsync(599_000);
+        expect(runCommand).not.toHaveBeenCalled();
+
+        await vi.advanceTimersByTimeAsync(1_000);
+        await until(() => runCommand.mock.calls.length === 1);
+        expect(dispatched()[0]).toContain('changed from "closed" to "open" and stayed that way for 10m');
+        await until(async () => (await loadListeners(tmpDir)).length === 0);
+        expect(await loadPendingFires(tmpDir)).toEqual([]);
+    });
+
+    it("cancels the hold when the state reverts", async () => {
+        await addListener(tmpDir, garageHold);
+        const service = createService();
+        await service.start();
+        const ws = await connect(service, [entity("cover.garage", "closed")]);
+
+        await stateChanged(service, ws, entity("cover.garage", "closed"), entity("cover.garage", "open"));
+        await vi.advanceTimersByTimeAsync(120_000);
+        await stateChanged(service, ws, entity("cover.garage", "open"), entity("cover.garage", "closed"));
+        expect(logs.some((l) => l.includes("hold cancelled: cover.garage"))).toBe(true);
+
+        await vi.advanceTimersByTimeAsync(600_000);
+        expect(runCommand).not.toHaveBeenCalled();
+        expect(await loadPendingFires(tmpDir)).toEqual([]);
+        expect(await loadListeners(tmpDir)).toHaveLength(1);
+    });
+
+    it("re-arms a hold after a restart for its remaining time", async () => {
+        await addListener(tmpDir, garageHold);
+        const first = createService();
+        await first.start();
+        const ws = await connect(first, [entity("cover.garage", "closed")]);
+        await stateChanged(first, ws, entity("cover.garage", "closed"), entity("cover.garage", "open"));
+        const openedAt = new Date().toISOString();
+
+        // Down for 4 of the 10 minutes
+        await first.stop();
+        await vi.advanceTimersByTimeAsync(240_000);
+        const second = createService();
+        await second.start();
+        await connect(second, [entity("cover.garage", "open", openedAt)]);
+        expect(logs).toContain("[ha-listener] re-armed 1 pending hold(s)");
+
+        await vi.advanceTimersByTimeAsync(359_000);
+        expect(runCommand).not.toHaveBeenCalled();
+        await vi.advanceTimersByTimeAsync(1_000);
+        await until(() => runCommand.mock.calls.length === 1);
+        expect(dispatched()[0]).toContain("stayed that way for 10m");
+    });
+
+    it("drops a hold that was reversed while stopped", async () => {
+        await addListener(tmpDir, garageHold);
+        const first = createService();
+        await first.start();
+        const ws = await connect(first, [entity("cover.garage", "closed")]);
+        await stateChanged(first, ws, entity("cover.garage", "closed"), entity("cover.garage", "open"));
+
+        await first.stop();
+        await vi.advanceTimersByTimeAsync(60_000);
+        const second = createService();
+        await second.start();
+        await connect(second, [entity("cover.garage", "closed")]);
+        expect(logs.some((l) => l.includes("hold cancelled: cover.garage"))).toBe(true);
+
+        await vi.advanceTimersByTimeAsync(600_000);
+        expect(runCommand).not.toHaveBeenCalled();
+    });
+});
+
+// ---- Catch-up ----
+
+/** Drop the connection and let the service reconnect. */
+async function disconnect(service: HAListenerService, ws: FakeWebSocket): Promise<void> {
+    ws.close();
+    await idle(service);
+}
+
+async function reconnect(service: HAListenerService, states: HAEntity[]): Promise<FakeWebSocket> {
+    await vi.advanceTimersByTimeAsync(1_000);
+    return connect(service, states);
+}
+
+const doorOpens: ListenerInput = {
+    entityId: "binary_sensor.door",
+    toState: "on",
+    message: "tell me",
+    oneShot: true,
+};
+
+describe("HAListenerService catch-up", () => {
+    it("fires a listener added while connected for a change missed during an outage", async () => {
+        const service = createService();
+        await service.start();
+        const ws = await connect(service, [entity("binary_sensor.door", "off")]);
+        // Added after the snapshot, with no event for the door since
+        await addListener(tmpDir, doorOpens);
+
+        await disconnect(service, ws);
+        await vi.advanceTimersByTimeAsync(60_000);
+        const openedAt = new Date().toISOString();
+        await vi.advanceTimersByTimeAsync(29_000);
+        await reconnect(service, [entity("binary_sensor.door", "on", openedAt)]);
+
+        expect(dispatched()).toHaveLength(1);
+        expect(dispatched()[0]).toContain(
+            'changed from "off" to "on" (missed while disconnected, delayed by 30 seconds)',
+        );
+    });
+
+    it("catches up after a restart from the persisted snapshot", async () => {
+        await addListener(tmpDir, doorOpens);
+        const first = createService();
+        await first.start();
+        await connect(first, [entity("binary_sensor.door", "off")]);
+        await first.stop();
+
+        await vi.advanceTimersByTimeAsync(120_000);
+        const second = createService();
+        await second.start();
+        await connect(second, [entity("binary_sensor.door", "on", new Date(Date.now() - 60_000).toISOString())]);
+
+        expect(dispatched()).toEqual([expect.stringContaining("delayed by 60 seconds")]);
+    });
+
+    it("lets events received before the state snapshot neither reset the baseline nor fire twice", async () => {
+        await addListener(tmpDir, doorOpens);
+        // Makes attribute updates of the door relevant
+        await addListener(tmpDir, {
+            entityId: "binary_sensor.door",
+            attribute: "battery",
+            below: 20,
+            message: "charge",
+            oneShot: false,
+        });
+        const service = createService();
+        await service.start();
+        const ws = await connect(service, [entity("binary_sensor.door", "off")]);
+        await disconnect(service, ws);
+        await vi.advanceTimersByTimeAsync(1_000);
+
+        const next = FakeWebSocket.instances.at(-1)!;
+        next.onopen?.();
+        next.receive({ type: "auth_ok", ha_version: "2026.3.0" });
+        await idle(service);
+        // The door opened during the outage; an attribute update arrives before get_states answers
+        const open = entity("binary_sensor.door", "on", new Date(Date.now() - 5_000).toISOString());
+        await stateChanged(service, next, open, { ...open, attributes: { battery: 90 } });
+        const getStates = next.sent.find((m) => m.type === "get_states")!;
+        const fresh = { ...open, attributes: { battery: 90 } };
+        next.receive({ type: "result", id: getStates.id, success: true, result: [fresh] });
+        await idle(service);
+
+        expect(dispatched()).toEqual([expect.stringContaining("delayed by 5 seconds")]);
+    });
+
+    it("skips changes older than the maximum age", async () => {
+        await addListener(tmpDir, doorOpens);
+        const service = createService(300);
+        await service.start();
+        const ws = await connect(service, [entity("binary_sensor.door", "off")]);
+        await disconnect(service, ws);
+
+        await vi.advanceTimersByTimeAsync(3_600_000);
+        await reconnect(service, [entity("binary_sensor.door", "on", new Date(Date.now() - 600_000).toISOString())]);
+
+        expect(runCommand).not.toHaveBeenCalled();
+        expect(logs).toContain("[ha-listener] catch-up: 0 missed trigger(s) fired, 1 change(s) too old to replay");
+    });
+});
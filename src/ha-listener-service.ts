@@ -2,42 +2,95 @@
  * HA Listener Service — WebSocket-based event subscription.
  *
  * Connects to Home Assistant's WebSocket API, subscribes to `state_changed`
- * events, and triggers agent actions when listeners match.
+ * events, and triggers agent actions when listeners match. The same stream
+ * keeps the shared state cache current.
  *
  * Lifecycle: registered via `api.registerService()`, started/stopped by
  * OpenClaw's plugin service manager.
  */
 
-import { loadListeners, matchesListener, saveListeners } from "./listener-store.js";
-import { exec } from "node:child_process";
+import fs from "node:fs/promises";
+import {
+    describeThreshold,
+    isListenerExpired,
+    listenerBelongsTo,
+    listenerCanFire,
+    listenerConditionHolds,
+    listenerCoversEntity,
+    listenerEntities,
+    listenerValue,
+    loadListenerSnapshot,
+    loadListeners,
+    loadPendingFires,
+    matchesListener,
+    readAttribute,
+    recordListenerFires,
+    removeExpiredListeners,
+    resolveListenersPath,
+    saveListenerSnapshot,
+    savePendingFires,
+    type Listener,
+    type PendingFire,
+} from "./listener-store.js";
+import { formatDuration, toWebSocketUrl, type HAClient, type HAEntity } from "./ha-client.js";
+import type { HAStateCache } from "./state-cache.js";
+import { isTemplate, renderTemplate, templateEntityRefs } from "./listener-template.js";
+import { appendListenerFire } from "./listener-history.js";
+import {
+    dispatchAgentTurn,
+    resolveDelivery,
+    type CommandRunner,
+    type DeliveryTarget,
+    type Logger,
+} from "./agent-dispatch.js";
 
 // ---- Types ----
 
-type Logger = {
-    info: (msg: string) => void;
-    warn: (msg: string) => void;
-    error: (msg: string) => void;
-    debug?: (msg: string) => void;
-};
-
 export type ListenerServiceConfig = {
     /** HA base URL (http://...) */
     url: string;
     /** HA long-lived access token */
     token: string;
+    /** Instance name; only listeners belonging to it are handled here */
+    instance: string;
+    /** Default instance name, which owns listeners without an instance */
+    defaultInstance: string;
     /** Plugin state directory for loading listeners */
     stateDir: string;
     /** Logger */
     logger: Logger;
+    /** Shared state cache to seed and keep current from the event stream */
+    stateCache?: HAStateCache;
+    /** Instance client; its ACL redacts attributes before they reach trigger text */
+    client?: HAClient;
+    /** Default delivery target; listeners override it field by field */
+    delivery: DeliveryTarget;
+    /** Runs `openclaw agent` (the runtime's runCommandWithTimeout when available) */
+    runCommand?: CommandRunner;
+    /**
+     * Replay transitions missed while disconnected if they happened at most
+     * this many seconds ago (default 900; 0 disables catch-up)
+     */
+    catchUpMaxAgeSeconds?: number;
 };
 
+const DEFAULT_CATCH_UP_MAX_AGE_SECONDS = 900;
+/** Coalesce snapshot writes from bursts of events */
+const SNAPSHOT_DEBOUNCE_MS = 5_000;
+
 // ---- HA WebSocket Protocol Types ----
 
 type HAWebSocketMessage =
     | { type: "auth_required"; ha_version: string }
     | { type: "auth_ok"; ha_version: string }
     | { type: "auth_invalid"; message: string }
-    | { type: "result"; id: number; success: boolean; error?: { code: string; message: string } }
+    | {
+          type: "result";
+          id: number;
+          success: boolean;
+          result?: unknown;
+          error?: { code: string; message: string };
+      }
     | { type: "event"; id: number; event: HAStateChangedEvent }
     | { type: "pong"; id: number };
 
@@ -45,8 +98,8 @@ type HAStateChangedEvent = {
     event_type: string;
     data: {
         entity_id: string;
-        old_state?: { state: string; attributes: Record<string, unknown> } | null;
-        new_state?: { state: string; attributes: Record<string, unknown> } | null;
+        old_state?: HAEntity | null;
+        new_state?: HAEntity | null;
     };
 };
 
@@ -59,6 +112,17 @@ export class HAListenerService {
     private pingTimer: ReturnType<typeof setInterval> | null = null;
     private reconnectDelay = 1000;
     private stopped = false;
+    private getStatesId: number | null = null;
+    /** Messages are handled one at a time, in the order HA sent them */
+    private messageQueue: Promise<void> = Promise.resolve();
+    /** `forSeconds` holds owned by this instance, mirrored to listener-timers.json */
+    private pendingFires: PendingFire[] = [];
+    private readonly holdTimers = new Map<string, ReturnType<typeof setTimeout>>();
+    /** Last visible state of each listened entity, mirrored to listener-snapshot.json */
+    private lastKnown = new Map<string, HAEntity>();
+    private snapshotTimer: ReturnType<typeof setTimeout> | null = null;
+    /** listeners.json as last read; re-read only when the file changes */
+    private listenerCache: { mtimeMs: number; size: number; listeners: Listener[] } | null = null;
     private readonly config: ListenerServiceConfig;
 
     constructor(config: ListenerServiceConfig) {
@@ -67,12 +131,21 @@ export class HAListenerService {
 
     async start(): Promise<void> {
         this.stopped = false;
+        // Re-armed once the first state snapshot arrives
+        this.pendingFires = (await loadPendingFires(this.config.stateDir)).filter(
+            (f) => f.instance === this.config.instance,
+        );
+        const snapshot = await loadListenerSnapshot(this.config.stateDir, this.config.instance);
+        this.lastKnown = new Map(Object.entries(snapshot));
         this.connect();
     }
 
     async stop(): Promise<void> {
         this.stopped = true;
         this.clearTimers();
+        this.clearHoldTimers();
+        await this.persistBaselines();
+        this.config.stateCache?.markStale();
         if (this.ws) {
             try {
                 this.ws.close();
@@ -97,8 +170,7 @@ export class HAListenerService {
     private connect(): void {
         if (this.stopped) return;
 
-        const httpUrl = this.config.url.replace(/\/$/, "");
-        const wsUrl = httpUrl.replace(/^http/, "ws") + "/api/websocket";
+        const wsUrl = toWebSocketUrl(this.config.url);
 
         this.config.logger.info(`[ha-listener] connecting to ${wsUrl}`);
 
@@ -120,7 +192,7 @@ export class HAListenerService {
         this.ws.onmessage = (event) => {
             try {
                 const msg = JSON.parse(String(event.data)) as HAWebSocketMessage;
-                void this.handleMessage(msg);
+                this.enqueue(() => this.handleMessage(msg), `handle ${msg.type}`);
             } catch (err) {
                 this.config.logger.error(
                     `[ha-listener] failed to parse message: ${String(err)}`,
@@ -131,6 +203,11 @@ export class HAListenerService {
         this.ws.onclose = () => {
             this.config.logger.info("[ha-listener] WebSocket closed");
             this.clearTimers();
+            // Changes during the outage are unknown; holds are re-checked and
+            // missed transitions caught up on reconnect
+            this.clearHoldTimers();
+            this.enqueue(() => this.persistBaselines(), "save state snapshot");
+            this.config.stateCache?.markStale();
             this.ws = null;
             this.scheduleReconnect();
         };
@@ -142,6 +219,13 @@ export class HAListenerService {
         };
     }
 
+    /** Run after everything queued so far, e.g. the messages already received. */
+    private enqueue(task: () => Promise<void>, what: string): void {
+        this.messageQueue = this.messageQueue.then(task).catch((err) => {
+            this.config.logger.error(`[ha-listener] failed to ${what}: ${String(err)}`);
+        });
+    }
+
     private scheduleReconnect(): void {
         if (this.stopped) return;
 
@@ -173,6 +257,7 @@ export class HAListenerService {
                     `[ha-listener] authenticated (HA ${msg.ha_version})`,
                 );
                 this.subscribeEvents();
+                this.requestStates();
                 this.startPing();
                 break;
 
@@ -186,6 +271,20 @@ export class HAListenerService {
                 break;
 
             case "result":
+                if (msg.id === this.getStatesId) {
+                    this.getStatesId = null;
+                    if (msg.success && Array.isArray(msg.result)) {
+                        const states = msg.result as HAEntity[];
+                        if (this.config.stateCache) {
+                            this.config.stateCache.seed(states);
+                            this.config.logger.info(
+                                `[ha-listener] state cache seeded with ${states.length} entities`,
+                            );
+                        }
+                        await this.restorePendingFires(states);
+                        await this.catchUp(states);
+                    }
+                }
                 if (!msg.success && msg.error) {
                     this.config.logger.error(
                         `[ha-listener] command ${msg.id} failed: ${msg.error.message}`,
@@ -215,6 +314,17 @@ export class HAListenerService {
         this.config.logger.info("[ha-listener] subscribed to state_changed events");
     }
 
+    /**
+     * Seed the state cache and re-check pending holds. Sent after
+     * subscribing, so every event that follows the snapshot is applied on
+     * top of it.
+     */
+    private requestStates(): void {
+        this.msgId += 1;
+        this.getStatesId = this.msgId;
+        this.send({ id: this.msgId, type: "get_states" });
+    }
+
     private startPing(): void {
         // Send a ping every 30 seconds to keep the connection alive
         this.pingTimer = setInterval(() => {
@@ -225,72 +335,454 @@ export class HAListenerService {
 
     private async handleStateChanged(event: HAStateChangedEvent): Promise<void> {
         const { entity_id, old_state, new_state } = event.data;
+        this.config.stateCache?.apply(entity_id, new_state);
         if (!old_state || !new_state) return;
 
-        const oldStateStr = old_state.state;
-        const newStateStr = new_state.state;
-        if (oldStateStr === newStateStr) return;
+        // Listeners never fire for entities hidden by the ACL, even via a glob
+        if (this.config.client && !this.config.client.isEntityVisible(entity_id)) return;
+
+        // Until the get_states reply arrives, catch-up compares the baseline
+        // against it and covers this event; handling it here as well would
+        // overwrite the baseline (or fire twice)
+        if (this.getStatesId !== null && this.catchUpMaxAgeMs > 0) return;
+
+        // Most events concern no listener; attribute-only churn matters only to attribute listeners
+        const covering = (await this.loadAllListeners()).filter((l) => listenerCoversEntity(l, entity_id));
+        if (covering.length === 0) return;
+        if (old_state.state === new_state.state && !covering.some((l) => l.attribute)) return;
+
+        // Attribute listeners match on the redacted view, so redacted attributes never fire
+        const visibleOld = this.config.client?.redactEntity(old_state) ?? old_state;
+        const visibleState = this.config.client?.redactEntity(new_state) ?? new_state;
+        if (
+            old_state.state === new_state.state &&
+            JSON.stringify(visibleOld.attributes) === JSON.stringify(visibleState.attributes)
+        ) {
+            return;
+        }
+
+        const now = Date.now();
+        const listeners = await this.loadActiveListeners(now);
+        this.rememberState(listeners, visibleState);
+        await this.processTransition(listeners, entity_id, visibleOld, visibleState, now);
+    }
 
+    /** All listeners, from memory unless listeners.json changed since it was last read. */
+    private async loadAllListeners(): Promise<Listener[]> {
+        const stat = await fs.stat(resolveListenersPath(this.config.stateDir)).catch(() => null);
+        if (!stat) return [];
+        const cached = this.listenerCache;
+        if (cached && cached.mtimeMs === stat.mtimeMs && cached.size === stat.size) return cached.listeners;
         const listeners = await loadListeners(this.config.stateDir);
-        const matched = listeners.filter((l) =>
-            matchesListener(l, entity_id, oldStateStr, newStateStr),
+        this.listenerCache = { mtimeMs: stat.mtimeMs, size: stat.size, listeners };
+        this.seedBaselines(listeners);
+        return listeners;
+    }
+
+    /** This instance's listeners, after removing expired ones. */
+    private async loadActiveListeners(now: number): Promise<Listener[]> {
+        let listeners = await this.loadAllListeners();
+        if (listeners.some((l) => isListenerExpired(l, now))) {
+            const expired = await removeExpiredListeners(this.config.stateDir, now);
+            this.logRemoved(expired, "expired");
+            listeners = listeners.filter((l) => !expired.some((e) => e.id === l.id));
+        }
+        return listeners.filter((l) => listenerBelongsTo(l, this.config.instance, this.config.defaultInstance));
+    }
+
+    /**
+     * Match one (visible, redacted) transition against the listeners and
+     * fire or start holds. `delayMs` marks a transition found by catch-up.
+     * Returns the number of listeners that matched.
+     */
+    private async processTransition(
+        listeners: Listener[],
+        entityId: string,
+        visibleOld: HAEntity,
+        visibleState: HAEntity,
+        now: number,
+        delayMs?: number,
+    ): Promise<number> {
+        const oldStateStr = visibleOld.state;
+        const newStateStr = visibleState.state;
+        await this.reevaluatePendingFires(listeners, [visibleState]);
+
+        // Matches during a cooldown are dropped, not deferred
+        const matched = listeners.filter(
+            (l) =>
+                listenerCanFire(l, now) &&
+                matchesListener(
+                    l,
+                    entityId,
+                    oldStateStr,
+                    newStateStr,
+                    visibleOld.attributes,
+                    visibleState.attributes,
+                ),
         );
 
-        if (matched.length === 0) return;
+        if (matched.length === 0) return 0;
 
         // Get friendly name for context
         const friendlyName =
-            (new_state.attributes?.friendly_name as string) ?? entity_id;
+            (visibleState.attributes?.friendly_name as string) ?? entityId;
+        const delayed =
+            delayMs === undefined || delayMs < 1000
+                ? ""
+                : ` (missed while disconnected, delayed by ${Math.round(delayMs / 1000)} seconds)`;
 
+        const immediate: Listener[] = [];
         for (const listener of matched) {
-            const triggerText =
-                `[Home Assistant Event] ${friendlyName} (\`${entity_id}\`) ` +
-                `changed from "${oldStateStr}" to "${newStateStr}".\n` +
-                `Listener message: ${listener.message}`;
+            const threshold = describeThreshold(listener);
+            const change =
+                (listener.attribute
+                    ? `attribute "${listener.attribute}" changed from ` +
+                      `"${readAttribute(visibleOld.attributes, listener.attribute)}" to ` +
+                      `"${readAttribute(visibleState.attributes, listener.attribute)}" (state: "${newStateStr}")`
+                    : `changed from "${oldStateStr}" to "${newStateStr}"`) +
+                (threshold ? ` (crossed ${threshold})` : "") +
+                delayed;
+
+            const message = await this.renderMessage(listener, entityId, friendlyName, visibleOld, visibleState);
+            if (listener.forSeconds) {
+                // A missed transition has been holding since it happened
+                await this.startHold(
+                    listener,
+                    entityId,
+                    {
+                        value: listenerValue(listener, newStateStr, visibleState.attributes),
+                        friendlyName,
+                        change,
+                        message,
+                    },
+                    now - (delayMs ?? 0),
+                );
+            } else {
+                this.dispatch(listener, entityId, friendlyName, change, message);
+                immediate.push(listener);
+            }
+        }
 
-            this.config.logger.info(
-                `[ha-listener] triggered: ${entity_id} ${oldStateStr}→${newStateStr} → "${listener.message}"`,
-            );
+        await this.recordFires(immediate);
+        return matched.length;
+    }
+
+    // ---- Catch-up ----
+
+    private get catchUpMaxAgeMs(): number {
+        return (this.config.catchUpMaxAgeSeconds ?? DEFAULT_CATCH_UP_MAX_AGE_SECONDS) * 1000;
+    }
 
-            // Use `openclaw agent` CLI to trigger an actual agent turn.
-            // Resolve via process.argv — the Gateway itself is openclaw.
-            const ocBin = process.argv[1] ?? "openclaw";
-            const escapedMessage = triggerText.replace(/'/g, "'\\''");
-            const cmd = `"${process.execPath}" "${ocBin}" agent --agent main --message '${escapedMessage}' --deliver --channel telegram`;
+    /** Track the last state of listened entities, persisted for catch-up after a restart. */
+    private rememberState(listeners: Listener[], entity: HAEntity): void {
+        if (!listeners.some((l) => listenerCoversEntity(l, entity.entity_id))) return;
+        this.lastKnown.set(entity.entity_id, entity);
+        this.scheduleSnapshotSave();
+    }
+
+    /**
+     * Give listened entities without a baseline (e.g. a listener was just
+     * added) their current state from the shared cache, so a change during
+     * the next outage is caught up.
+     */
+    private seedBaselines(listeners: Listener[]): void {
+        const cache = this.config.stateCache;
+        const client = this.config.client;
+        const mine = listeners.filter((l) => listenerBelongsTo(l, this.config.instance, this.config.defaultInstance));
+        if (!cache || mine.length === 0) return;
+        let seeded = false;
+        for (const entity of cache.all()) {
+            if (this.lastKnown.has(entity.entity_id)) continue;
+            if (!mine.some((l) => listenerCoversEntity(l, entity.entity_id))) continue;
+            if (client && !client.isEntityVisible(entity.entity_id)) continue;
+            this.lastKnown.set(entity.entity_id, client?.redactEntity(entity) ?? entity);
+            seeded = true;
+        }
+        if (seeded) this.scheduleSnapshotSave();
+    }
+
+    /** Seed any missing baselines and save the snapshot now (on disconnect or stop). */
+    private async persistBaselines(): Promise<void> {
+        this.seedBaselines(await this.loadAllListeners());
+        await this.flushSnapshot();
+    }
 
+    private scheduleSnapshotSave(): void {
+        if (this.snapshotTimer) return;
+        this.snapshotTimer = setTimeout(() => void this.flushSnapshot(), SNAPSHOT_DEBOUNCE_MS);
+    }
+
+    private async flushSnapshot(): Promise<void> {
+        if (this.snapshotTimer) {
+            clearTimeout(this.snapshotTimer);
+            this.snapshotTimer = null;
+        }
+        try {
+            await saveListenerSnapshot(this.config.stateDir, this.config.instance, Object.fromEntries(this.lastKnown));
+        } catch (err) {
+            this.config.logger.error(`[ha-listener] failed to save state snapshot: ${String(err)}`);
+        }
+    }
+
+    /**
+     * After (re)connecting: compare the last-known state of every listened
+     * entity with the fresh snapshot and fire listeners for transitions
+     * missed while disconnected. Only the net change is seen, and changes
+     * older than `catchUpMaxAgeSeconds` are skipped.
+     */
+    private async catchUp(states: HAEntity[]): Promise<void> {
+        const now = Date.now();
+        const maxAgeMs = this.catchUpMaxAgeMs;
+        const listeners = await this.loadActiveListeners(now);
+        let matched = 0;
+        let skipped = 0;
+
+        for (const entity of states) {
+            if (!listeners.some((l) => listenerCoversEntity(l, entity.entity_id))) continue;
+            if (this.config.client && !this.config.client.isEntityVisible(entity.entity_id)) continue;
+            const current = this.config.client?.redactEntity(entity) ?? entity;
+            const previous = this.lastKnown.get(entity.entity_id);
+            this.lastKnown.set(entity.entity_id, current);
+            if (!previous || maxAgeMs <= 0) continue;
+
+            const stateChanged = previous.state !== current.state;
+            if (!stateChanged && JSON.stringify(previous.attributes) === JSON.stringify(current.attributes)) continue;
+
+            const changedAt = new Date(
+                stateChanged ? current.last_changed : (current.last_updated ?? current.last_changed),
+            ).getTime();
+            const delayMs = Number.isNaN(changedAt) ? 0 : Math.max(0, now - changedAt);
+            if (delayMs > maxAgeMs) {
+                skipped += 1;
+                continue;
+            }
+            matched += await this.processTransition(listeners, entity.entity_id, previous, current, now, delayMs);
+        }
+        // Forget entities no listener covers any more
+        for (const entityId of this.lastKnown.keys()) {
+            if (!listeners.some((l) => listenerCoversEntity(l, entityId))) this.lastKnown.delete(entityId);
+        }
+
+        await this.flushSnapshot();
+        if (matched > 0 || skipped > 0) {
             this.config.logger.info(
-                `[ha-listener] exec: ${cmd.slice(0, 200)}...`,
+                `[ha-listener] catch-up: ${matched} missed trigger(s) fired, ${skipped} change(s) too old to replay`,
             );
+        }
+    }
 
-            try {
-                exec(cmd, { timeout: 120_000 }, (err, stdout, stderr) => {
-                    if (err) {
-                        this.config.logger.error(
-                            `[ha-listener] openclaw agent failed: ${String(err)}${stderr ? ` stderr: ${stderr}` : ""}`,
-                        );
-                    } else {
-                        this.config.logger.info(
-                            `[ha-listener] openclaw agent completed for ${entity_id}`,
-                        );
-                    }
-                });
-            } catch (err) {
-                this.config.logger.error(
-                    `[ha-listener] failed to exec openclaw agent: ${String(err)}`,
-                );
-            }
+    // ---- Firing ----
+
+    /**
+     * The listener's message with template placeholders filled in. Other
+     * entities are read through the client, so the ACL applies to them too.
+     */
+    private async renderMessage(
+        listener: Listener,
+        entityId: string,
+        friendlyName: string,
+        oldState: HAEntity,
+        newState: HAEntity,
+    ): Promise<string> {
+        if (!isTemplate(listener.message)) return listener.message;
+        const client = this.config.client;
+        const entities = new Map<string, HAEntity>();
+        for (const id of templateEntityRefs(listener.message)) {
+            const entity = client ? await client.getState(id) : this.config.stateCache?.get(id);
+            if (entity) entities.set(id, entity);
         }
+        const timeZone = client ? (await client.getHAConfig().catch(() => null))?.time_zone : undefined;
+        return renderTemplate(listener.message, {
+            entityId,
+            friendlyName,
+            oldState,
+            newState,
+            attribute: listener.attribute,
+            entities,
+            timeZone,
+        });
+    }
 
-        // Remove one-shot listeners that fired
-        const firedOneShotIds = new Set(
-            matched.filter((l) => l.oneShot).map((l) => l.id),
+    private dispatch(
+        listener: Listener,
+        entityId: string,
+        friendlyName: string,
+        change: string,
+        message = listener.message,
+    ): void {
+        const patterns = listenerEntities(listener);
+        const via =
+            patterns.length === 1 && patterns[0] === entityId
+                ? ""
+                : ` [listener covers ${patterns.join(", ")}]`;
+        const triggerText =
+            `[Home Assistant Event] ${friendlyName} (\`${entityId}\`)${via} ` +
+            change +
+            ".\n" +
+            `Listener message: ${message}`;
+
+        this.config.logger.info(
+            `[ha-listener] triggered: ${entityId} ${change} → "${message}"`,
         );
-        if (firedOneShotIds.size > 0) {
-            const remaining = listeners.filter((l) => !firedOneShotIds.has(l.id));
-            await saveListeners(this.config.stateDir, remaining);
-            this.config.logger.info(
-                `[ha-listener] removed ${firedOneShotIds.size} one-shot listener(s)`,
+
+        const firedAt = new Date().toISOString();
+        const delivery = resolveDelivery(this.config.delivery, listener.delivery);
+        dispatchAgentTurn(triggerText, {
+            logger: this.config.logger,
+            logPrefix: "[ha-listener]",
+            subject: entityId,
+            delivery,
+            runCommand: this.config.runCommand,
+            onComplete: (result) => {
+                appendListenerFire(this.config.stateDir, {
+                    timestamp: firedAt,
+                    instance: this.config.instance,
+                    listener,
+                    entityId,
+                    friendlyName,
+                    change,
+                    message,
+                    delivery,
+                    exitCode: result.code,
+                    durationMs: result.durationMs,
+                    stderr: result.stderr,
+                }).catch((err) => {
+                    this.config.logger.error(`[ha-listener] failed to record fire history: ${String(err)}`);
+                });
+            },
+        });
+    }
+
+    /** Count fires; removes one-shot listeners and those that used up their budget. */
+    private async recordFires(fired: Listener[]): Promise<void> {
+        const removed = await recordListenerFires(this.config.stateDir, fired.map((l) => l.id));
+        this.logRemoved(removed, "finished");
+    }
+
+    private logRemoved(removed: Listener[], why: string): void {
+        if (removed.length === 0) return;
+        this.config.logger.info(
+            `[ha-listener] removed ${removed.length} ${why} listener(s): ${removed.map((l) => l.id).join(", ")}`,
+        );
+    }
+
+    // ---- "for" holds ----
+
+    private holdKey(fire: Pick<PendingFire, "listenerId" | "entityId">): string {
+        return `${fire.listenerId}|${fire.entityId}`;
+    }
+
+    /** Start waiting for a `forSeconds` listener; a hold already running is kept. */
+    private async startHold(
+        listener: Listener,
+        entityId: string,
+        details: Pick<PendingFire, "value" | "friendlyName" | "change" | "message">,
+        since = Date.now(),
+    ): Promise<void> {
+        const key = this.holdKey({ listenerId: listener.id, entityId });
+        if (this.pendingFires.some((f) => this.holdKey(f) === key)) return;
+
+        const fire: PendingFire = {
+            listenerId: listener.id,
+            entityId,
+            instance: this.config.instance,
+            ...details,
+            since: new Date(since).toISOString(),
+            fireAt: new Date(since + listener.forSeconds! * 1000).toISOString(),
+        };
+        this.pendingFires.push(fire);
+        await savePendingFires(this.config.stateDir, this.config.instance, this.pendingFires);
+        this.scheduleHold(fire);
+        this.config.logger.info(
+            `[ha-listener] holding ${entityId} for listener ${listener.id} until ${fire.fireAt}`,
+        );
+    }
+
+    private scheduleHold(fire: PendingFire): void {
+        const key = this.holdKey(fire);
+        if (this.holdTimers.has(key)) return;
+        const delay = Math.max(0, new Date(fire.fireAt).getTime() - Date.now());
+        this.holdTimers.set(
+            key,
+            setTimeout(() => {
+                this.holdTimers.delete(key);
+                void this.completeHold(key);
+            }, delay),
+        );
+    }
+
+    private async completeHold(key: string): Promise<void> {
+        const fire = this.pendingFires.find((f) => this.holdKey(f) === key);
+        if (!fire) return;
+        this.pendingFires = this.pendingFires.filter((f) => f !== fire);
+        await savePendingFires(this.config.stateDir, this.config.instance, this.pendingFires);
+
+        const listener = (await this.loadAllListeners()).find((l) => l.id === fire.listenerId);
+        if (!listener || !listenerCanFire(listener)) return;
+        const held = formatDuration(Date.now() - new Date(fire.since).getTime());
+        this.dispatch(
+            listener,
+            fire.entityId,
+            fire.friendlyName,
+            `${fire.change} and stayed that way for ${held}`,
+            fire.message,
+        );
+        await this.recordFires([listener]);
+    }
+
+    /**
+     * Cancel holds whose condition no longer holds for the given (visible)
+     * states, or whose listener was removed. Holds for entities not in
+     * `states` are left alone unless `dropMissing` is set.
+     */
+    private async reevaluatePendingFires(
+        listeners: Listener[],
+        states: HAEntity[],
+        dropMissing = false,
+    ): Promise<void> {
+        const byId = new Map(states.map((e) => [e.entity_id, e]));
+        const cancelled = this.pendingFires.filter((fire) => {
+            const entity = byId.get(fire.entityId);
+            if (!entity) return dropMissing;
+            const listener = listeners.find((l) => l.id === fire.listenerId);
+            return (
+                !listener ||
+                !listenerConditionHolds(listener, fire.value, listenerValue(listener, entity.state, entity.attributes))
             );
+        });
+        if (cancelled.length === 0) return;
+
+        for (const fire of cancelled) {
+            const key = this.holdKey(fire);
+            const timer = this.holdTimers.get(key);
+            if (timer) clearTimeout(timer);
+            this.holdTimers.delete(key);
+            this.config.logger.info(`[ha-listener] hold cancelled: ${fire.entityId} (listener ${fire.listenerId})`);
         }
+        this.pendingFires = this.pendingFires.filter((f) => !cancelled.includes(f));
+        await savePendingFires(this.config.stateDir, this.config.instance, this.pendingFires);
+    }
+
+    /**
+     * After (re)connecting: drop holds that were reversed while we weren't
+     * watching, and re-arm the rest for their remaining time.
+     */
+    private async restorePendingFires(states: HAEntity[]): Promise<void> {
+        if (this.pendingFires.length === 0) return;
+        const visible = states
+            .filter((e) => !this.config.client || this.config.client.isEntityVisible(e.entity_id))
+            .map((e) => this.config.client?.redactEntity(e) ?? e);
+        const listeners = await this.loadAllListeners();
+        // Entities that disappeared (or became hidden) can't still hold
+        await this.reevaluatePendingFires(listeners, visible, true);
+        for (const fire of this.pendingFires) this.scheduleHold(fire);
+        if (this.pendingFires.length > 0) {
+            this.config.logger.info(`[ha-listener] re-armed ${this.pendingFires.length} pending hold(s)`);
+        }
+    }
+
+    private clearHoldTimers(): void {
+        for (const timer of this.holdTimers.values()) clearTimeout(timer);
+        this.holdTimers.clear();
     }
 }
@@ -0,0 +1,138 @@
+/**
+ * Unit tests for the scheduler: running due schedules as time passes and
+ * `sun.sun` moves on.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import fs from "node:fs/promises";
+import path from "node:path";
+import os from "node:os";
+import { HAScheduler } from "./ha-scheduler.js";
+import { addSchedule, loadSchedules } from "./schedule-store.js";
+import type { HAClient, HAEntity } from "./ha-client.js";
+import type { CommandRunner } from "./agent-dispatch.js";
+
+let tmpDir: string;
+let sun: HAEntity;
+let runCommand: ReturnType<typeof vi.fn<CommandRunner>>;
+let scheduler: HAScheduler;
+
+const MIN = 60_000;
+const DAY = 24 * 60 * MIN;
+const sunset = Date.parse("2025-06-01T19:30:00Z");
+const sunrise = Date.parse("2025-06-02T03:00:00Z");
+
+function setSun(nextSetting: number, nextRising: number): void {
+    sun = {
+        entity_id: "sun.sun",
+        state: "above_horizon",
+        attributes: {
+            next_setting: new Date(nextSetting).toISOString(),
+            next_rising: new Date(nextRising).toISOString(),
+        },
+        last_changed: "",
+        last_updated: "",
+    };
+}
+
+beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "ha-scheduler-test-"));
+    setSun(sunset, sunrise);
+    runCommand = vi.fn<CommandRunner>(async () => ({ code: 0, stderr: "" }));
+    const client = {
+        getHAConfig: async () => ({ time_zone: "UTC" }),
+        getState: async (id: string) => (id === "sun.sun" ? sun : null),
+    } as unknown as HAClient;
+    scheduler = new HAScheduler({
+        instance: "default",
+        defaultInstance: "default",
+        stateDir: tmpDir,
+        client,
+        logger: { info: () => undefined, warn: () => undefined, error: () => undefined },
+        delivery: {},
+        runCommand,
+    });
+});
+
+afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+});
+
+/** Run the scheduler's tick body at `now`, as the 30s poll would. */
+function runDue(now: number): Promise<number | null> {
+    return scheduler["runDue"](now);
+}
+
+async function nextRunAt(): Promise<number | undefined> {
+    const [schedule] = await loadSchedules(tmpDir);
+    return schedule?.nextRunAt ? Date.parse(schedule.nextRunAt) : undefined;
+}
+
+describe("HAScheduler sun schedules", () => {
+    it("fires after sunset with a positive offset although sun.sun has moved on", async () => {
+        await addSchedule(tmpDir, {
+            sunEvent: "sunset",
+            offsetMinutes: 30,
+            message: "close the blinds",
+            oneShot: false,
+        });
+        await runDue(sunset - 2 * 60 * MIN);
+        expect(await nextRunAt()).toBe(sunset + 30 * MIN);
+
+        // Once the sun has set, next_setting is tomorrow's
+        setSun(sunset + DAY + 2 * MIN, sunrise);
+        for (let now = sunset + MIN; now <= sunset + 35 * MIN; now += 30_000) await runDue(now);
+
+        expect(runCommand).toHaveBeenCalledTimes(1);
+        expect(await nextRunAt()).toBe(sunset + DAY + 32 * MIN);
+    });
+
+    it("refines an estimated run as sun.sun updates", async () => {
+        // 15 min before sunrise, decided after today's window: estimated 24h later
+        setSun(sunset, sunrise - DAY);
+        await addSchedule(tmpDir, { sunEvent: "sunrise", offsetMinutes: -15, message: "heat", oneShot: false });
+        await runDue(sunrise - DAY);
+        expect(await nextRunAt()).toBe(sunrise - 15 * MIN);
+
+        // HA reports tomorrow's real sunrise, two minutes earlier
+        setSun(sunset, sunrise - 2 * MIN);
+        await runDue(sunrise - DAY + 10 * MIN);
+        expect(await nextRunAt()).toBe(sunrise - 17 * MIN);
+        expect(runCommand).not.toHaveBeenCalled();
+    });
+
+    it("keeps the stored run while sun.sun is unavailable", async () => {
+        await addSchedule(tmpDir, { sunEvent: "sunset", message: "lights", oneShot: false });
+        await runDue(sunset - 60 * MIN);
+        sun = { ...sun, attributes: {} };
+        await runDue(sunset - 30 * MIN);
+        expect(await nextRunAt()).toBe(sunset);
+        await runDue(sunset + MIN);
+        expect(runCommand).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe("HAScheduler one-off schedules", () => {
+    it("runs once and removes the schedule", async () => {
+        const at = sunset;
+        await addSchedule(tmpDir, { at: new Date(at).toISOString(), message: "remind me", oneShot: true });
+        expect(await runDue(at - MIN)).toBe(at);
+        await runDue(at + 10_000);
+        await runDue(at + 40_000);
+        expect(runCommand).toHaveBeenCalledTimes(1);
+        expect(await loadSchedules(tmpDir)).toEqual([]);
+    });
+
+    it("skips runs missed by more than the grace period", async () => {
+        const at = sunset;
+        await addSchedule(tmpDir, {
+            at: new Date(at).toISOString(),
+            nextRunAt: new Date(at).toISOString(),
+            message: "remind me",
+            oneShot: true,
+        });
+        await runDue(at + 10 * MIN);
+        expect(runCommand).not.toHaveBeenCalled();
+        expect(await loadSchedules(tmpDir)).toEqual([]);
+    });
+});
@@ -0,0 +1,189 @@
+/**
+ * HA Scheduler — time-based triggers alongside the state listeners.
+ *
+ * Runs schedules (cron, one-off and sun-relative) from the schedule store
+ * and delivers them the same way as listener triggers. Times use the
+ * instance's HA `time_zone`; sun schedules follow its `sun.sun` entity.
+ * The store is re-read on every tick, so schedules added by tools are
+ * picked up without a restart.
+ *
+ * Lifecycle: registered via `api.registerService()`, one per instance.
+ */
+
+import {
+    dispatchAgentTurn,
+    resolveDelivery,
+    type CommandRunner,
+    type DeliveryTarget,
+    type Logger,
+} from "./agent-dispatch.js";
+import { formatZonedTime } from "./cron.js";
+import type { HAClient } from "./ha-client.js";
+import {
+    computeNextRun,
+    describeScheduleTrigger,
+    loadSchedules,
+    resolveScheduleEnv,
+    saveSchedules,
+    scheduleBelongsTo,
+    type Schedule,
+} from "./schedule-store.js";
+
+// ---- Types ----
+
+export type SchedulerConfig = {
+    /** Instance name; only schedules belonging to it run here */
+    instance: string;
+    /** Default instance name, which owns schedules without an instance */
+    defaultInstance: string;
+    /** Plugin state directory for loading schedules */
+    stateDir: string;
+    /** Instance client, for the time zone and `sun.sun` */
+    client: HAClient;
+    /** Logger */
+    logger: Logger;
+    /** Default delivery target; schedules override it field by field */
+    delivery: DeliveryTarget;
+    /** Runs `openclaw agent` (the runtime's runCommandWithTimeout when available) */
+    runCommand?: CommandRunner;
+};
+
+/** Re-read the store at least this often */
+const POLL_MS = 30_000;
+/** Runs missed by more than this (e.g. the gateway was down) are skipped */
+const MISSED_GRACE_MS = 5 * 60_000;
+/**
+ * A recomputed sun time this close to the stored one is the same event,
+ * refined; further off, `sun.sun` has already moved on to the next day's.
+ */
+const SUN_REFINE_WINDOW_MS = 12 * 60 * 60_000;
+
+// ---- Service ----
+
+export class HAScheduler {
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    private stopped = false;
+    private readonly config: SchedulerConfig;
+
+    constructor(config: SchedulerConfig) {
+        this.config = config;
+    }
+
+    async start(): Promise<void> {
+        this.stopped = false;
+        void this.tick();
+    }
+
+    async stop(): Promise<void> {
+        this.stopped = true;
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+    }
+
+    private async tick(): Promise<void> {
+        this.timer = null;
+        let nextRun: number | null = null;
+        try {
+            nextRun = await this.runDue(Date.now());
+        } catch (err) {
+            this.config.logger.error(`[ha-scheduler] tick failed: ${String(err)}`);
+        }
+        if (this.stopped) return;
+        const delay = nextRun === null ? POLL_MS : Math.min(POLL_MS, Math.max(0, nextRun - Date.now()));
+        this.timer = setTimeout(() => void this.tick(), delay);
+    }
+
+    /**
+     * Run due schedules and advance them. Returns the earliest upcoming run
+     * of this instance's schedules, or null.
+     */
+    private async runDue(now: number): Promise<number | null> {
+        const mine = (await loadSchedules(this.config.stateDir)).filter((s) =>
+            scheduleBelongsTo(s, this.config.instance, this.config.defaultInstance),
+        );
+        if (mine.length === 0) return null;
+
+        const env = await resolveScheduleEnv(this.config.client, mine.some((s) => s.sunEvent));
+        const updated = new Map<string, Schedule>();
+        const removed = new Set<string>();
+
+        for (const schedule of mine) {
+            const due = schedule.nextRunAt ? new Date(schedule.nextRunAt).getTime() : null;
+
+            if (due === null) {
+                const next = computeNextRun(schedule, now, env);
+                if (next !== null) updated.set(schedule.id, { ...schedule, nextRunAt: new Date(next).toISOString() });
+                continue;
+            }
+            if (due > now) {
+                // Sun times shift a little each day, so refine the stored run. Once
+                // the event itself has passed (a positive offset), next_setting /
+                // next_rising point at tomorrow's: keep today's run.
+                if (schedule.sunEvent) {
+                    const next = computeNextRun(schedule, now, env);
+                    if (next !== null && next !== due && Math.abs(next - due) < SUN_REFINE_WINDOW_MS) {
+                        updated.set(schedule.id, { ...schedule, nextRunAt: new Date(next).toISOString() });
+                    }
+                }
+                continue;
+            }
+
+            if (now - due <= MISSED_GRACE_MS) {
+                this.dispatch(schedule, now, env.timeZone);
+                updated.set(schedule.id, { ...schedule, lastRunAt: new Date(now).toISOString() });
+            } else {
+                this.config.logger.warn(
+                    `[ha-scheduler] skipped missed run of ${schedule.id} (due ${schedule.nextRunAt})`,
+                );
+            }
+
+            if (schedule.at || schedule.oneShot) {
+                removed.add(schedule.id);
+                continue;
+            }
+            const next = computeNextRun(schedule, now, env);
+            updated.set(schedule.id, {
+                ...(updated.get(schedule.id) ?? schedule),
+                nextRunAt: next === null ? undefined : new Date(next).toISOString(),
+            });
+        }
+
+        if (updated.size > 0 || removed.size > 0) {
+            // Re-read so schedules added while we were running aren't lost
+            const fresh = await loadSchedules(this.config.stateDir);
+            await saveSchedules(
+                this.config.stateDir,
+                fresh.filter((s) => !removed.has(s.id)).map((s) => updated.get(s.id) ?? s),
+            );
+            if (removed.size > 0) {
+                this.config.logger.info(`[ha-scheduler] removed ${removed.size} finished schedule(s)`);
+            }
+        }
+
+        const upcoming = mine
+            .filter((s) => !removed.has(s.id))
+            .map((s) => (updated.get(s.id) ?? s).nextRunAt)
+            .filter((t): t is string => t !== undefined)
+            .map((t) => new Date(t).getTime());
+        return upcoming.length > 0 ? Math.min(...upcoming) : null;
+    }
+
+    private dispatch(schedule: Schedule, now: number, timeZone: string): void {
+        const triggerText =
+            `[Home Assistant Schedule] ${describeScheduleTrigger(schedule, timeZone)} ` +
+            `(now ${formatZonedTime(now, timeZone)} ${timeZone}).\n` +
+            `Schedule message: ${schedule.message}`;
+
+        this.config.logger.info(`[ha-scheduler] triggered: ${schedule.id} → "${schedule.message}"`);
+
+        dispatchAgentTurn(triggerText, {
+            logger: this.config.logger,
+            logPrefix: "[ha-scheduler]",
+            subject: `schedule ${schedule.id}`,
+            delivery: resolveDelivery(this.config.delivery, schedule.delivery),
+            runCommand: this.config.runCommand,
+        });
+    }
+}
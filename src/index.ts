@@ -1,34 +1,61 @@
 /**
  * Home Assistant Plugin for OpenClaw
  *
- * Entry point — wires HA client, context hook, tools, and /ha command.
+ * Entry point — wires HA clients (one per configured instance), context hook,
+ * tools, and /ha command.
  */
 
 import type { OpenClawPluginApi } from "openclaw/plugin-sdk";
-import { HAClient } from "./ha-client.js";
-import { buildHomeContext, mergeContextConfig, readContextConfig } from "./context-hook.js";
+import { groupEntitiesByArea } from "./ha-client.js";
+import {
+    buildHomeContext,
+    instanceContextOptions,
+    mergeContextConfig,
+    readContextConfig,
+} from "./context-hook.js";
 import {
     createHaStatesToolDef,
+    createHaServicesToolDef,
     createHaCallServiceToolDef,
+    createHaAuditToolDef,
     createHaLogbookToolDef,
+    createHaHistoryToolDef,
+    createHaStatisticsToolDef,
     createHaContextConfigToolDef,
+    createHaAclExplainToolDef,
     createHaListenToolDef,
+    createHaScheduleToolDef,
 } from "./tools.js";
 import { HAListenerService } from "./ha-listener-service.js";
+import { HAScheduler } from "./ha-scheduler.js";
+import {
+    HAInstanceRegistry,
+    createInstance,
+    resolveInstanceConfigs,
+    type HAInstance,
+    type InstanceConfig,
+} from "./instances.js";
+import {
+    formatPendingAction,
+    loadPendingActions,
+    takePendingAction,
+} from "./pending-actions.js";
+import { formatAuditRecord, queryAuditLog } from "./audit-log.js";
+import { formatListenerFire, queryListenerHistory } from "./listener-history.js";
+import { formatListener, listenerCoversEntity, loadListeners } from "./listener-store.js";
+import {
+    DEFAULT_DELIVERY,
+    resolveDelivery,
+    type CommandRunner,
+    type DeliveryTarget,
+} from "./agent-dispatch.js";
 
-type PluginConfig = {
-    url?: string;
-    token?: string;
-    context?: {
-        enabled?: boolean;
-        maxEntities?: number;
-        groupByArea?: boolean;
-    };
-    acl?: {
-        blockedEntities?: string[];
-        watchedEntities?: string[];
-        writableDomains?: string[];
-    };
+type PluginConfig = InstanceConfig & {
+    instances?: Record<string, InstanceConfig>;
+    /** Default target for listener and schedule triggers */
+    delivery?: DeliveryTarget;
+    /** Max age in seconds of missed transitions replayed after a reconnect (0 = off) */
+    catchUpMaxAgeSeconds?: number;
 };
 
 function parseConfig(raw: Record<string, unknown> | undefined): PluginConfig {
@@ -36,41 +63,166 @@ function parseConfig(raw: Record<string, unknown> | undefined): PluginConfig {
     return {
         url: (raw.url as string) ?? "",
         token: (raw.token as string) ?? "",
+        dryRun: raw.dryRun as boolean | undefined,
         context: raw.context as PluginConfig["context"],
         acl: raw.acl as PluginConfig["acl"],
+        instances: raw.instances as PluginConfig["instances"],
+        delivery: raw.delivery as PluginConfig["delivery"],
+        catchUpMaxAgeSeconds: raw.catchUpMaxAgeSeconds as number | undefined,
     };
 }
 
+/** The parts of the tool factory context used here. */
+type ToolFactoryContext = {
+    agentId?: string;
+    sessionKey?: string;
+};
+
+function toolOrigin(ctx: ToolFactoryContext): DeliveryTarget {
+    return { agentId: ctx.agentId, sessionKey: ctx.sessionKey };
+}
+
 function textResult(text: string) {
     return { content: [{ type: "text" as const, text }], details: { text } };
 }
 
+/** /ha status block for one instance. */
+async function summarizeInstance(instance: HAInstance): Promise<string> {
+    const client = instance.client;
+    if (!client.isConfigured) {
+        return `Not configured — set instances.${instance.name}.url and .token.`;
+    }
+
+    try {
+        const haConfig = await client.verifyConnection();
+        const entities = await client.getStates();
+        const domainCounts = new Map<string, number>();
+        for (const e of entities) {
+            const domain = e.entity_id.split(".")[0] ?? "";
+            domainCounts.set(domain, (domainCounts.get(domain) ?? 0) + 1);
+        }
+        const domainSummary = [...domainCounts.entries()]
+            .sort((a, b) => b[1] - a[1])
+            .map(([d, n]) => `  ${d}: ${n}`)
+            .join("\n");
+
+        const areas = await client.getEntityAreas();
+        const areaSummary = [...groupEntitiesByArea(entities, areas).entries()]
+            .sort((a, b) => b[1].length - a[1].length)
+            .map(([area, list]) => `  ${area}: ${list.length}`)
+            .join("\n");
+
+        const writableDomains = client.writableDomainList;
+        const writableLabel = writableDomains.length > 0
+            ? writableDomains.join(", ")
+            : "none (read-only mode)";
+
+        return (
+            `Connected to **${haConfig.location_name}** (HA ${haConfig.version})\n\n` +
+            `**${entities.length} visible entities:**\n${domainSummary}\n\n` +
+            `**By area:**\n${areaSummary}\n\n` +
+            `**Writable domains:** ${writableLabel}`
+        );
+    } catch (err) {
+        return `Failed to connect to Home Assistant: ${String(err)}`;
+    }
+}
+
+/** /ha approve|deny|pending — act on service calls awaiting confirmation. */
+async function handlePendingCommand(
+    instances: HAInstanceRegistry,
+    stateDir: string,
+    subcommand: string,
+    id: string | undefined,
+): Promise<string> {
+    if (subcommand === "pending") {
+        const actions = await loadPendingActions(stateDir);
+        if (actions.length === 0) return "No pending actions.";
+        return `**Pending actions (${actions.length}):**\n${actions.map(formatPendingAction).join("\n")}`;
+    }
+
+    if (!id) return `Usage: /ha ${subcommand} <id>`;
+    const action = await takePendingAction(stateDir, id);
+    if (!action) return `No pending action "${id}" (it may have expired).`;
+    if (subcommand === "deny") {
+        return `Rejected ${action.domain}.${action.service} on ${action.entityIds.join(", ")}.`;
+    }
+
+    const instance = instances.resolve(action.instance);
+    if (!instance) return instances.unknownMessage(action.instance);
+    try {
+        // ACL and schema are re-checked; only the confirmation step is skipped
+        const result = await instance.client.callService(
+            action.domain,
+            action.service,
+            { entity_id: action.entityIds },
+            action.data,
+            { confirmed: true, toolCallId: action.toolCallId },
+        );
+        return `${result.success ? "✅" : "❌"} ${result.message}`;
+    } catch (err) {
+        return `❌ Failed to call ${action.domain}.${action.service}: ${String(err)}`;
+    }
+}
+
+/** /ha listeners — active listeners and recent firings, optionally for one listener or entity. */
+async function summarizeListeners(stateDir: string, filter: string | undefined): Promise<string> {
+    // Entity IDs and globs contain a dot; listener IDs don't
+    const query = filter?.includes(".") ? { entityId: filter } : { listenerId: filter };
+    const listeners = (await loadListeners(stateDir)).filter(
+        (l) =>
+            (!query.listenerId || l.id === query.listenerId) &&
+            (!query.entityId || listenerCoversEntity(l, query.entityId)),
+    );
+    const fires = await queryListenerHistory(stateDir, { ...query, limit: 10 });
+
+    const active =
+        listeners.length > 0
+            ? `**Active listeners (${listeners.length}):**\n${listeners.map((l) => formatListener(l)).join("\n")}`
+            : "No active listeners.";
+    const history =
+        fires.length > 0
+            ? `**Recent firings:**\n${fires.map(formatListenerFire).join("\n")}`
+            : "No listener firings recorded.";
+    return `${active}\n\n${history}`;
+}
+
 export default function register(api: OpenClawPluginApi) {
     const cfg = parseConfig(api.pluginConfig);
-    const client = new HAClient({
-        url: cfg.url ?? "",
-        token: cfg.token ?? "",
-        blockedEntities: cfg.acl?.blockedEntities ?? [],
-        writableDomains: cfg.acl?.writableDomains ?? [],
-    });
+    const stateDir = api.runtime.state.resolveStateDir();
+    const instances = new HAInstanceRegistry(
+        [...resolveInstanceConfigs(cfg, cfg.instances)].map(([name, config]) =>
+            createInstance(name, config, stateDir),
+        ),
+    );
+    const configured = () => instances.all.filter((i) => i.client.isConfigured);
+    const delivery = resolveDelivery(DEFAULT_DELIVERY, cfg.delivery);
+    // Run `openclaw agent` through the runtime (no shell); older runtimes fall back to execFile
+    const runCommand: CommandRunner | undefined = api.runtime.system?.runCommandWithTimeout
+        ? (argv, options) => api.runtime.system.runCommandWithTimeout(argv, options)
+        : undefined;
 
     // ---- Hook: inject home status into agent context ----
     api.on("before_agent_start", async (_event, _ctx) => {
-        if (!client.isConfigured) return;
+        const active = configured();
+        if (active.length === 0) return;
 
         const stateDir = api.runtime.state.resolveStateDir();
-        const agentOverrides = await readContextConfig(stateDir);
-        const contextConfig = mergeContextConfig(
-            {
-                enabled: cfg.context?.enabled,
-                watchedEntities: cfg.acl?.watchedEntities,
-                maxEntities: cfg.context?.maxEntities,
-                groupByArea: cfg.context?.groupByArea,
-            },
-            agentOverrides,
+        const sections = await Promise.all(
+            active.map(async (instance) => {
+                const contextConfig = mergeContextConfig(
+                    instanceContextOptions(instance.config),
+                    await readContextConfig(stateDir, instance.name),
+                );
+                return buildHomeContext(
+                    instance.client,
+                    contextConfig,
+                    instances.isMulti ? instance.name : undefined,
+                );
+            }),
         );
 
-        const prependContext = await buildHomeContext(client, contextConfig);
+        const prependContext = sections.filter(Boolean).join("\n\n");
         if (!prependContext) return;
 
         return { prependContext };
@@ -78,7 +230,7 @@ export default function register(api: OpenClawPluginApi) {
 
     // ---- Tools ----
 
-    const statesToolDef = createHaStatesToolDef(client);
+    const statesToolDef = createHaStatesToolDef(instances);
     api.registerTool({
         name: statesToolDef.name,
         label: "Home Assistant States",
@@ -89,18 +241,40 @@ export default function register(api: OpenClawPluginApi) {
         },
     });
 
-    const callServiceToolDef = createHaCallServiceToolDef(client);
+    const servicesToolDef = createHaServicesToolDef(instances);
+    api.registerTool({
+        name: servicesToolDef.name,
+        label: "Home Assistant Services",
+        description: servicesToolDef.description,
+        parameters: servicesToolDef.inputSchema,
+        async execute(_toolCallId: string, params: Record<string, unknown>) {
+            return textResult(await servicesToolDef.execute(params));
+        },
+    });
+
+    const callServiceToolDef = createHaCallServiceToolDef(instances, stateDir);
     api.registerTool({
         name: callServiceToolDef.name,
         label: "Home Assistant Service Call",
         description: callServiceToolDef.description,
         parameters: callServiceToolDef.inputSchema,
+        async execute(toolCallId: string, params: Record<string, unknown>) {
+            return textResult(await callServiceToolDef.execute(params, { toolCallId }));
+        },
+    });
+
+    const auditToolDef = createHaAuditToolDef(stateDir, instances);
+    api.registerTool({
+        name: auditToolDef.name,
+        label: "Home Assistant Audit Log",
+        description: auditToolDef.description,
+        parameters: auditToolDef.inputSchema,
         async execute(_toolCallId: string, params: Record<string, unknown>) {
-            return textResult(await callServiceToolDef.execute(params));
+            return textResult(await auditToolDef.execute(params));
         },
     });
 
-    const logbookToolDef = createHaLogbookToolDef(client);
+    const logbookToolDef = createHaLogbookToolDef(instances);
     api.registerTool({
         name: logbookToolDef.name,
         label: "Home Assistant Logbook",
@@ -111,12 +285,30 @@ export default function register(api: OpenClawPluginApi) {
         },
     });
 
+    const historyToolDef = createHaHistoryToolDef(instances);
+    api.registerTool({
+        name: historyToolDef.name,
+        label: "Home Assistant History",
+        description: historyToolDef.description,
+        parameters: historyToolDef.inputSchema,
+        async execute(_toolCallId: string, params: Record<string, unknown>) {
+            return textResult(await historyToolDef.execute(params));
+        },
+    });
+
+    const statisticsToolDef = createHaStatisticsToolDef(instances);
+    api.registerTool({
+        name: statisticsToolDef.name,
+        label: "Home Assistant Statistics",
+        description: statisticsToolDef.description,
+        parameters: statisticsToolDef.inputSchema,
+        async execute(_toolCallId: string, params: Record<string, unknown>) {
+            return textResult(await statisticsToolDef.execute(params));
+        },
+    });
+
     // Context config tool — uses stateDir from runtime
-    const stateDir = api.runtime.state.resolveStateDir();
-    const contextConfigToolDef = createHaContextConfigToolDef(
-        stateDir,
-        cfg.context as Record<string, unknown> | undefined,
-    );
+    const contextConfigToolDef = createHaContextConfigToolDef(stateDir, instances);
     api.registerTool({
         name: contextConfigToolDef.name,
         label: "Home Assistant Context Config",
@@ -127,46 +319,111 @@ export default function register(api: OpenClawPluginApi) {
         },
     });
 
-    // ---- Tool: ha_listen ----
-    const listenToolDef = createHaListenToolDef(stateDir, client);
+    const aclExplainToolDef = createHaAclExplainToolDef(stateDir, instances);
     api.registerTool({
-        name: listenToolDef.name,
-        label: "Home Assistant Event Listener",
-        description: listenToolDef.description,
-        parameters: listenToolDef.inputSchema,
+        name: aclExplainToolDef.name,
+        label: "Home Assistant ACL Explain",
+        description: aclExplainToolDef.description,
+        parameters: aclExplainToolDef.inputSchema,
         async execute(_toolCallId: string, params: Record<string, unknown>) {
-            return textResult(await listenToolDef.execute(params));
+            return textResult(await aclExplainToolDef.execute(params));
         },
     });
 
-    // ---- Service: HA listener (WebSocket event subscription) ----
-    if (client.isConfigured) {
+    // ---- Tool: ha_listen ----
+    // Registered as factories so triggers default to the agent and session that created them
+    const listenToolDef = createHaListenToolDef(stateDir, instances);
+    api.registerTool(
+        (ctx: ToolFactoryContext) => ({
+            name: listenToolDef.name,
+            label: "Home Assistant Event Listener",
+            description: listenToolDef.description,
+            parameters: listenToolDef.inputSchema,
+            async execute(_toolCallId: string, params: Record<string, unknown>) {
+                return textResult(await listenToolDef.execute(params, { origin: toolOrigin(ctx) }));
+            },
+        }),
+        { name: listenToolDef.name },
+    );
+
+    // ---- Tool: ha_schedule ----
+    const scheduleToolDef = createHaScheduleToolDef(stateDir, instances);
+    api.registerTool(
+        (ctx: ToolFactoryContext) => ({
+            name: scheduleToolDef.name,
+            label: "Home Assistant Schedule",
+            description: scheduleToolDef.description,
+            parameters: scheduleToolDef.inputSchema,
+            async execute(_toolCallId: string, params: Record<string, unknown>) {
+                return textResult(await scheduleToolDef.execute(params, { origin: toolOrigin(ctx) }));
+            },
+        }),
+        { name: scheduleToolDef.name },
+    );
+
+    // ---- Services: HA listener (WebSocket event subscription) and scheduler, one per instance ----
+    for (const instance of configured()) {
+        const tag = instances.isMulti ? `[ha-listener:${instance.name}]` : "[ha-listener]";
+        const label = (msg: string) => msg.replace("[ha-listener]", tag);
         const listenerService = new HAListenerService({
-            url: cfg.url ?? "",
-            token: cfg.token ?? "",
+            url: instance.config.url ?? "",
+            token: instance.config.token ?? "",
+            instance: instance.name,
+            defaultInstance: instances.defaultName,
             stateDir,
+            stateCache: instance.stateCache,
+            client: instance.client,
+            delivery,
+            runCommand,
+            catchUpMaxAgeSeconds: cfg.catchUpMaxAgeSeconds,
             logger: {
-                info: (msg) => api.logger.info(msg),
-                warn: (msg) => api.logger.warn(msg),
-                error: (msg) => api.logger.error(msg),
-                debug: (msg) => api.logger.debug?.(msg),
+                info: (msg) => api.logger.info(label(msg)),
+                warn: (msg) => api.logger.warn(label(msg)),
+                error: (msg) => api.logger.error(label(msg)),
+                debug: (msg) => api.logger.debug?.(label(msg)),
             },
         });
 
         api.registerService({
-            id: "ha-listener",
+            id: instances.isMulti ? `ha-listener-${instance.name}` : "ha-listener",
             start: async () => listenerService.start(),
             stop: async () => listenerService.stop(),
         });
+
+        const schedulerTag = instances.isMulti ? `[ha-scheduler:${instance.name}]` : "[ha-scheduler]";
+        const schedulerLabel = (msg: string) => msg.replace("[ha-scheduler]", schedulerTag);
+        const scheduler = new HAScheduler({
+            instance: instance.name,
+            defaultInstance: instances.defaultName,
+            stateDir,
+            client: instance.client,
+            delivery,
+            runCommand,
+            logger: {
+                info: (msg) => api.logger.info(schedulerLabel(msg)),
+                warn: (msg) => api.logger.warn(schedulerLabel(msg)),
+                error: (msg) => api.logger.error(schedulerLabel(msg)),
+                debug: (msg) => api.logger.debug?.(schedulerLabel(msg)),
+            },
+        });
+
+        api.registerService({
+            id: instances.isMulti ? `ha-scheduler-${instance.name}` : "ha-scheduler",
+            start: async () => scheduler.start(),
+            stop: async () => scheduler.stop(),
+        });
     }
 
     // ---- Command: /ha ----
     api.registerCommand({
         name: "ha",
-        description: "Quick Home Assistant status overview.",
+        description:
+            "Quick Home Assistant status overview. " +
+            "Subcommands: pending, approve <id>, deny <id>, audit [entity], listeners [listener id | entity], " +
+            "acl <entity> [instance].",
         acceptsArgs: true,
-        handler: async (_ctx) => {
-            if (!client.isConfigured) {
+        handler: async (ctx) => {
+            if (configured().length === 0) {
                 return {
                     text:
                         "Home Assistant is not configured.\n\n" +
@@ -179,33 +436,31 @@ export default function register(api: OpenClawPluginApi) {
                 };
             }
 
-            try {
-                const haConfig = await client.verifyConnection();
-                const entities = await client.getStates();
-                const domainCounts = new Map<string, number>();
-                for (const e of entities) {
-                    const domain = e.entity_id.split(".")[0] ?? "";
-                    domainCounts.set(domain, (domainCounts.get(domain) ?? 0) + 1);
-                }
-                const domainSummary = [...domainCounts.entries()]
-                    .sort((a, b) => b[1] - a[1])
-                    .map(([d, n]) => `  ${d}: ${n}`)
-                    .join("\n");
-
-                const writableDomains = cfg.acl?.writableDomains ?? [];
-                const writableLabel = writableDomains.length > 0
-                    ? writableDomains.join(", ")
-                    : "none (read-only mode)";
-
-                return {
-                    text:
-                        `Connected to **${haConfig.location_name}** (HA ${haConfig.version})\n\n` +
-                        `**${entities.length} visible entities:**\n${domainSummary}\n\n` +
-                        `**Writable domains:** ${writableLabel}`,
-                };
-            } catch (err) {
-                return { text: `Failed to connect to Home Assistant: ${String(err)}` };
+            const [subcommand, arg, arg2] = String(ctx.args ?? "").trim().split(/\s+/);
+            if (subcommand === "approve" || subcommand === "deny" || subcommand === "pending") {
+                return { text: await handlePendingCommand(instances, stateDir, subcommand, arg) };
+            }
+            if (subcommand === "acl") {
+                if (!arg) return { text: "Usage: /ha acl <entity_id> [instance]" };
+                return { text: await aclExplainToolDef.execute({ entity_id: arg, instance: arg2 }) };
+            }
+            if (subcommand === "audit") {
+                const records = await queryAuditLog(stateDir, { entityId: arg, limit: 20 });
+                if (records.length === 0) return { text: "No service calls in the audit log." };
+                return { text: `**Recent service calls:**\n${records.map(formatAuditRecord).join("\n")}` };
             }
+            if (subcommand === "listeners") {
+                return { text: await summarizeListeners(stateDir, arg) };
+            }
+
+            const summaries = await Promise.all(
+                instances.all.map((instance) => summarizeInstance(instance)),
+            );
+            return {
+                text: instances.isMulti
+                    ? instances.all.map((i, idx) => `## ${i.name}\n${summaries[idx]}`).join("\n\n")
+                    : summaries[0]!,
+            };
         },
     });
 }
@@ -0,0 +1,58 @@
+/**
+ * Unit tests for multi-instance config resolution and lookup.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+    DEFAULT_INSTANCE,
+    HAInstanceRegistry,
+    createInstance,
+    resolveInstanceConfigs,
+} from "./instances.js";
+
+describe("resolveInstanceConfigs", () => {
+    it("treats the top-level connection as the default instance", () => {
+        const configs = resolveInstanceConfigs({ url: "http://home", token: "t" }, undefined);
+        expect([...configs.keys()]).toEqual([DEFAULT_INSTANCE]);
+    });
+
+    it("lists the default instance first, then named ones", () => {
+        const configs = resolveInstanceConfigs(
+            { url: "http://home", token: "t" },
+            { office: { url: "http://office", token: "o" } },
+        );
+        expect([...configs.keys()]).toEqual([DEFAULT_INSTANCE, "office"]);
+    });
+
+    it("omits the default instance when only named instances are configured", () => {
+        const configs = resolveInstanceConfigs(
+            {},
+            { office: { url: "http://office", token: "o" }, lab: { url: "http://lab", token: "l" } },
+        );
+        expect([...configs.keys()]).toEqual(["office", "lab"]);
+    });
+});
+
+describe("HAInstanceRegistry", () => {
+    const registry = new HAInstanceRegistry([
+        createInstance("office", { url: "http://office", token: "o", acl: { writableDomains: ["light"] } }),
+        createInstance("lab", { url: "http://lab", token: "l" }),
+    ]);
+
+    it("resolves by name and falls back to the first instance", () => {
+        expect(registry.isMulti).toBe(true);
+        expect(registry.defaultName).toBe("office");
+        expect(registry.resolve()?.name).toBe("office");
+        expect(registry.resolve("lab")?.name).toBe("lab");
+        expect(registry.resolve("nope")).toBeNull();
+    });
+
+    it("gives each instance its own ACL", () => {
+        expect(registry.resolve("office")?.client.callableDomainList).toEqual(["light"]);
+        expect(registry.resolve("lab")?.client.callableDomainList).toEqual([]);
+    });
+
+    it("names the valid instances in the unknown-instance message", () => {
+        expect(registry.unknownMessage("nope")).toContain("office, lab");
+    });
+});
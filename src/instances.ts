@@ -0,0 +1,127 @@
+/**
+ * HA instances — one client, ACL and state cache per Home Assistant server.
+ *
+ * The legacy top-level `url`/`token`/`acl` config is the "default" instance;
+ * additional servers are configured by name under `instances`.
+ */
+
+import { HAClient } from "./ha-client.js";
+import { HAStateCache } from "./state-cache.js";
+import type { ConfirmationPolicy, RedactedAttributes, ServiceRule } from "./acl.js";
+import type { RateLimitRule } from "./rate-limiter.js";
+import type { ValuePolicy } from "./value-policy.js";
+
+// ---- Types ----
+
+export type InstanceConfig = {
+    url?: string;
+    token?: string;
+    /** Simulate service calls instead of executing them */
+    dryRun?: boolean;
+    context?: {
+        enabled?: boolean;
+        maxEntities?: number;
+        groupByArea?: boolean;
+    };
+    acl?: {
+        blockedEntities?: string[];
+        watchedEntities?: string[];
+        writableDomains?: string[];
+        serviceRules?: ServiceRule[];
+        requireConfirmation?: ConfirmationPolicy;
+        redactedAttributes?: RedactedAttributes;
+        valuePolicies?: ValuePolicy[];
+        rateLimits?: RateLimitRule[];
+        dailyQuota?: number;
+    };
+};
+
+export type HAInstance = {
+    name: string;
+    config: InstanceConfig;
+    client: HAClient;
+    /** Fed by this instance's listener service; the client falls back to REST while it is not live */
+    stateCache: HAStateCache;
+};
+
+export const DEFAULT_INSTANCE = "default";
+
+// ---- Config ----
+
+/**
+ * Collect named instance configs. The top-level connection (if any) becomes
+ * the "default" instance and is listed first.
+ */
+export function resolveInstanceConfigs(
+    topLevel: InstanceConfig,
+    instances: Record<string, InstanceConfig> | undefined,
+): Map<string, InstanceConfig> {
+    const result = new Map<string, InstanceConfig>();
+    if (topLevel.url || topLevel.token || !instances || Object.keys(instances).length === 0) {
+        result.set(DEFAULT_INSTANCE, topLevel);
+    }
+    for (const [name, config] of Object.entries(instances ?? {})) {
+        result.set(name, config);
+    }
+    return result;
+}
+
+/** `stateDir` enables per-instance persistent state such as the audit log. */
+export function createInstance(name: string, config: InstanceConfig, stateDir?: string): HAInstance {
+    const stateCache = new HAStateCache();
+    const client = new HAClient({
+        url: config.url ?? "",
+        token: config.token ?? "",
+        blockedEntities: config.acl?.blockedEntities ?? [],
+        writableDomains: config.acl?.writableDomains ?? [],
+        serviceRules: config.acl?.serviceRules ?? [],
+        requireConfirmation: config.acl?.requireConfirmation,
+        redactedAttributes: config.acl?.redactedAttributes,
+        valuePolicies: config.acl?.valuePolicies,
+        rateLimits: config.acl?.rateLimits,
+        dailyQuota: config.acl?.dailyQuota,
+        dryRun: config.dryRun,
+        stateDir,
+        instanceName: name,
+        stateCache,
+    });
+    return { name, config, client, stateCache };
+}
+
+// ---- Registry ----
+
+export class HAInstanceRegistry {
+    private readonly instances: Map<string, HAInstance>;
+
+    constructor(instances: HAInstance[]) {
+        this.instances = new Map(instances.map((i) => [i.name, i]));
+    }
+
+    get all(): HAInstance[] {
+        return [...this.instances.values()];
+    }
+
+    get names(): string[] {
+        return [...this.instances.keys()];
+    }
+
+    /** True when more than one instance is configured (output gets labelled). */
+    get isMulti(): boolean {
+        return this.instances.size > 1;
+    }
+
+    /** Name used for listeners and calls that don't specify an instance. */
+    get defaultName(): string {
+        return this.instances.has(DEFAULT_INSTANCE) ? DEFAULT_INSTANCE : (this.names[0] ?? DEFAULT_INSTANCE);
+    }
+
+    /** Look up an instance by name; no name means the default instance. */
+    resolve(name?: string): HAInstance | null {
+        return this.instances.get(name || this.defaultName) ?? null;
+    }
+
+    /** Message for an unknown instance name, listing the valid ones. */
+    unknownMessage(name: string): string {
+        return `Unknown Home Assistant instance "${name}". Configured instances: ${this.names.join(", ")}.`;
+    }
+}
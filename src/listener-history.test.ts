@@ -0,0 +1,101 @@
+/**
+ * Unit tests for the listener fire history.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "node:fs/promises";
+import path from "node:path";
+import os from "node:os";
+import {
+    MAX_LISTENER_HISTORY,
+    appendListenerFire,
+    formatListenerFire,
+    queryListenerHistory,
+    type ListenerFireRecord,
+} from "./listener-history.js";
+
+let tmpDir: string;
+
+beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "ha-listener-history-test-"));
+});
+
+afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+});
+
+function makeRecord(overrides: Partial<ListenerFireRecord> = {}): ListenerFireRecord {
+    return {
+        timestamp: "2025-06-01T10:00:00.000Z",
+        instance: "default",
+        listener: {
+            id: "abc123",
+            entityId: "binary_sensor.front_door",
+            toState: "on",
+            message: "tell me",
+            oneShot: true,
+            createdAt: "2025-06-01T09:00:00.000Z",
+        },
+        entityId: "binary_sensor.front_door",
+        friendlyName: "Front Door",
+        change: 'changed from "off" to "on"',
+        message: "tell me",
+        delivery: { agentId: "main", deliver: true },
+        exitCode: 0,
+        durationMs: 12_000,
+        ...overrides,
+    };
+}
+
+describe("appendListenerFire / queryListenerHistory", () => {
+    it("returns an empty history when the file does not exist", async () => {
+        expect(await queryListenerHistory(tmpDir)).toEqual([]);
+    });
+
+    it("filters by listener, entity glob and instance", async () => {
+        await appendListenerFire(tmpDir, makeRecord());
+        await appendListenerFire(
+            tmpDir,
+            makeRecord({
+                listener: { ...makeRecord().listener, id: "def456" },
+                entityId: "cover.garage",
+                instance: "cabin",
+            }),
+        );
+
+        expect((await queryListenerHistory(tmpDir, { listenerId: "def456" })).map((r) => r.entityId)).toEqual([
+            "cover.garage",
+        ]);
+        expect(await queryListenerHistory(tmpDir, { entityId: "binary_sensor.*" })).toHaveLength(1);
+        expect(await queryListenerHistory(tmpDir, { instance: "cabin" })).toHaveLength(1);
+    });
+
+    it("keeps only the most recent records, even when appended concurrently", async () => {
+        await Promise.all(
+            Array.from({ length: MAX_LISTENER_HISTORY + 5 }, (_, i) =>
+                appendListenerFire(tmpDir, makeRecord({ timestamp: String(i) })),
+            ),
+        );
+        const records = await queryListenerHistory(tmpDir, { limit: 1000 });
+        expect(records).toHaveLength(MAX_LISTENER_HISTORY);
+        expect(records[0]!.timestamp).toBe("5");
+        expect(records.at(-1)!.timestamp).toBe(String(MAX_LISTENER_HISTORY + 4));
+    });
+});
+
+describe("formatListenerFire", () => {
+    it("shows the event, delivery and outcome", () => {
+        expect(formatListenerFire(makeRecord())).toBe(
+            '✅ 2025-06-01T10:00:00.000Z [abc123] Front Door (`binary_sensor.front_door`) changed from "off" to "on" ' +
+                "(default, one-shot) → agent main: exit 0 after 12s\n  Message: tell me",
+        );
+    });
+
+    it("includes stderr for failed runs", () => {
+        const line = formatListenerFire(makeRecord({ exitCode: 1, stderr: "unknown channel" }));
+        expect(line).toMatch(/^❌ /);
+        expect(line).toContain("exit 1");
+        expect(line).toContain("\n  stderr: unknown channel");
+        expect(formatListenerFire(makeRecord({ exitCode: null }))).toContain("did not finish");
+    });
+});
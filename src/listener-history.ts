@@ -0,0 +1,121 @@
+/**
+ * Listener History — bounded record of listener firings.
+ *
+ * One-shot listeners are deleted once they fire, so each firing is kept
+ * here with a snapshot of the listener, the triggering event and how the
+ * `openclaw agent` run went. This answers "why didn't it tell me when the
+ * door opened?" after the fact. Only the most recent entries are kept.
+ */
+
+import fs from "node:fs/promises";
+import path from "node:path";
+import { formatDuration, matchesAnyPattern } from "./ha-client.js";
+import { describeDelivery, type DeliveryTarget } from "./agent-dispatch.js";
+import type { Listener } from "./listener-store.js";
+
+// ---- Types ----
+
+export type ListenerFireRecord = {
+    /** ISO timestamp of when the listener fired */
+    timestamp: string;
+    /** HA instance the event came from */
+    instance: string;
+    /** The listener as it was when it fired */
+    listener: Listener;
+    /** Triggering event */
+    entityId: string;
+    friendlyName: string;
+    /** What happened, e.g. `changed from "off" to "on"` */
+    change: string;
+    /** Message sent to the agent, after template rendering */
+    message: string;
+    delivery: DeliveryTarget;
+    /** `openclaw agent` exit status; null when it could not be run or timed out */
+    exitCode: number | null;
+    durationMs: number;
+    /** Tail of stderr, if any */
+    stderr?: string;
+};
+
+export type ListenerHistoryQuery = {
+    listenerId?: string;
+    /** Entity glob; matches the triggering entity */
+    entityId?: string;
+    instance?: string;
+    /** Most recent N records (default 20) */
+    limit?: number;
+};
+
+// ---- Store path ----
+
+const LISTENER_HISTORY_FILE = "listener-history.json";
+
+/** Records kept; older ones are dropped as new ones come in */
+export const MAX_LISTENER_HISTORY = 200;
+
+/** Characters of stderr kept per record */
+const MAX_STDERR = 500;
+
+export function resolveListenerHistoryPath(stateDir: string): string {
+    return path.join(stateDir, "plugins", "homeassistant", LISTENER_HISTORY_FILE);
+}
+
+// ---- Read / append ----
+
+async function readHistory(stateDir: string): Promise<ListenerFireRecord[]> {
+    try {
+        const parsed = JSON.parse(await fs.readFile(resolveListenerHistoryPath(stateDir), "utf8"));
+        return Array.isArray(parsed) ? (parsed as ListenerFireRecord[]) : [];
+    } catch {
+        return [];
+    }
+}
+
+/** Appends run one after another so concurrent dispatches don't overwrite each other. */
+let appendQueue: Promise<void> = Promise.resolve();
+
+/** Append a record, keeping only the most recent `MAX_LISTENER_HISTORY`. */
+export function appendListenerFire(stateDir: string, record: ListenerFireRecord): Promise<void> {
+    const stderr = record.stderr?.trim();
+    const entry: ListenerFireRecord = {
+        ...record,
+        stderr: stderr ? stderr.slice(-MAX_STDERR) : undefined,
+    };
+    const write = async () => {
+        const history = await readHistory(stateDir);
+        history.push(entry);
+        const filePath = resolveListenerHistoryPath(stateDir);
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, JSON.stringify(history.slice(-MAX_LISTENER_HISTORY), null, 2) + "\n", "utf8");
+    };
+    appendQueue = appendQueue.then(write, write);
+    return appendQueue;
+}
+
+/** Load fire records matching the query, oldest first. */
+export async function queryListenerHistory(
+    stateDir: string,
+    query: ListenerHistoryQuery = {},
+): Promise<ListenerFireRecord[]> {
+    const records = (await readHistory(stateDir)).filter(
+        (r) =>
+            (!query.listenerId || r.listener.id === query.listenerId) &&
+            (!query.instance || r.instance === query.instance) &&
+            (!query.entityId || matchesAnyPattern(r.entityId, [query.entityId])),
+    );
+    return records.slice(-(query.limit ?? 20));
+}
+
+// ---- Formatting ----
+
+export function formatListenerFire(r: ListenerFireRecord): string {
+    const icon = r.exitCode === 0 ? "✅" : "❌";
+    const status = r.exitCode === null ? "did not finish" : `exit ${r.exitCode}`;
+    const mode = r.listener.oneShot ? "one-shot" : "recurring";
+    return (
+        `${icon} ${r.timestamp} [${r.listener.id}] ${r.friendlyName} (\`${r.entityId}\`) ${r.change} ` +
+        `(${r.instance}, ${mode}) → ${describeDelivery(r.delivery)}: ${status} after ${formatDuration(r.durationMs)}` +
+        `\n  Message: ${r.message}` +
+        (r.stderr ? `\n  stderr: ${r.stderr}` : "")
+    );
+}
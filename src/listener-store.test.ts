@@ -11,10 +11,23 @@ import {
     saveListeners,
     addListener,
     removeListener,
+    recordListenerFires,
+    removeExpiredListeners,
+    listenerCanFire,
+    describeListenerBudget,
     matchesListener,
+    readAttribute,
+    listenerBelongsTo,
+    listenerConditionHolds,
+    listenerValue,
+    loadPendingFires,
+    savePendingFires,
+    loadListenerSnapshot,
+    saveListenerSnapshot,
     formatListener,
     resolveListenersPath,
     type Listener,
+    type PendingFire,
 } from "./listener-store.js";
 
 // Use a temp dir for each test to avoid cross-test contamination
@@ -131,6 +144,69 @@ describe("removeListener", () => {
     });
 });
 
+describe("recordListenerFires", () => {
+    it("counts fires and removes one-shot and exhausted listeners", async () => {
+        const recurring = await addListener(tmpDir, { entityId: "binary_sensor.motion", message: "a", oneShot: false });
+        const once = await addListener(tmpDir, { entityId: "light.a", message: "b", oneShot: true });
+        const limited = await addListener(tmpDir, { entityId: "light.b", message: "c", oneShot: false, maxFires: 2 });
+        const now = Date.parse("2026-01-01T12:00:00Z");
+
+        const removed = await recordListenerFires(tmpDir, [recurring.id, once.id, limited.id], now);
+        expect(removed.map((l) => l.id)).toEqual([once.id]);
+        let listeners = await loadListeners(tmpDir);
+        expect(listeners.find((l) => l.id === recurring.id)).toMatchObject({
+            fireCount: 1,
+            lastFiredAt: "2026-01-01T12:00:00.000Z",
+        });
+
+        await recordListenerFires(tmpDir, [limited.id], now);
+        listeners = await loadListeners(tmpDir);
+        expect(listeners.map((l) => l.id)).toEqual([recurring.id]);
+    });
+});
+
+describe("removeExpiredListeners", () => {
+    it("removes only listeners past their expiry", async () => {
+        await addListener(tmpDir, { entityId: "light.a", message: "a", oneShot: false, expiresAt: "2026-01-01T00:00:00Z" });
+        const kept = await addListener(tmpDir, { entityId: "light.b", message: "b", oneShot: false });
+        const removed = await removeExpiredListeners(tmpDir, Date.parse("2026-01-02T00:00:00Z"));
+        expect(removed).toHaveLength(1);
+        expect((await loadListeners(tmpDir)).map((l) => l.id)).toEqual([kept.id]);
+    });
+});
+
+describe("listenerCanFire / describeListenerBudget", () => {
+    const now = Date.parse("2026-01-01T12:00:00Z");
+    const base: Listener = {
+        id: "test",
+        entityId: "binary_sensor.motion",
+        message: "motion",
+        oneShot: false,
+        createdAt: "",
+    };
+
+    it("blocks fires during the cooldown", () => {
+        const l = { ...base, cooldownSeconds: 600, lastFiredAt: "2026-01-01T11:55:00Z" };
+        expect(listenerCanFire(l, now)).toBe(false);
+        expect(listenerCanFire(l, now + 5 * 60_000)).toBe(true);
+        expect(describeListenerBudget(l, now)).toBe("cooldown 10m (5m left)");
+    });
+
+    it("blocks fires when exhausted or expired", () => {
+        expect(listenerCanFire({ ...base, maxFires: 3, fireCount: 3 }, now)).toBe(false);
+        expect(listenerCanFire({ ...base, expiresAt: "2026-01-01T11:00:00Z" }, now)).toBe(false);
+        expect(listenerCanFire(base, now)).toBe(true);
+    });
+
+    it("describes the remaining budget", () => {
+        expect(describeListenerBudget(base, now)).toBeNull();
+        expect(describeListenerBudget({ ...base, fireCount: 4 }, now)).toBe("fired 4×");
+        expect(
+            describeListenerBudget({ ...base, maxFires: 5, fireCount: 2, expiresAt: "2026-01-01T15:00:00Z" }, now),
+        ).toBe("fired 2/5, 3 left, expires in 3h");
+    });
+});
+
 // ---- Matching tests ----
 
 describe("matchesListener", () => {
@@ -172,6 +248,187 @@ describe("matchesListener", () => {
         expect(matchesListener(l, "light.bedroom", "on", "off")).toBe(false);
         expect(matchesListener(l, "light.bedroom", "unavailable", "on")).toBe(false);
     });
+
+    it("fires when crossing above a threshold, not while staying above", () => {
+        const l = { ...base, entityId: "sensor.freezer", above: -10 };
+        expect(matchesListener(l, "sensor.freezer", "-12", "-9.5")).toBe(true);
+        expect(matchesListener(l, "sensor.freezer", "-9.5", "-8")).toBe(false);
+        expect(matchesListener(l, "sensor.freezer", "-8", "-11")).toBe(false);
+        // Exactly at the threshold is not above it
+        expect(matchesListener(l, "sensor.freezer", "-12", "-10")).toBe(false);
+    });
+
+    it("fires when crossing below a threshold", () => {
+        const l = { ...base, entityId: "sensor.humidity", below: 40 };
+        expect(matchesListener(l, "sensor.humidity", "42", "39")).toBe(true);
+        expect(matchesListener(l, "sensor.humidity", "39", "35")).toBe(false);
+    });
+
+    it("fires on entering a range", () => {
+        const l = { ...base, entityId: "sensor.temp", above: 18, below: 22 };
+        expect(matchesListener(l, "sensor.temp", "17", "19")).toBe(true);
+        expect(matchesListener(l, "sensor.temp", "23", "21")).toBe(true);
+        expect(matchesListener(l, "sensor.temp", "19", "20")).toBe(false);
+        expect(matchesListener(l, "sensor.temp", "17", "25")).toBe(false);
+    });
+
+    it("matches attribute changes while the state stays the same", () => {
+        const l = { ...base, entityId: "media_player.tv", attribute: "media_title" };
+        expect(
+            matchesListener(l, "media_player.tv", "playing", "playing", { media_title: "A" }, { media_title: "B" }),
+        ).toBe(true);
+        expect(
+            matchesListener(l, "media_player.tv", "paused", "playing", { media_title: "A" }, { media_title: "A" }),
+        ).toBe(false);
+    });
+
+    it("applies from/to and thresholds to the attribute value", () => {
+        const battery = { ...base, entityId: "sensor.phone", attribute: "battery_level", below: 20 };
+        expect(matchesListener(battery, "sensor.phone", "ok", "ok", { battery_level: 21 }, { battery_level: 19 })).toBe(true);
+        expect(matchesListener(battery, "sensor.phone", "ok", "ok", { battery_level: 19 }, { battery_level: 18 })).toBe(false);
+
+        const hvac = { ...base, entityId: "climate.living", attribute: "hvac_action", toState: "heating" };
+        expect(
+            matchesListener(hvac, "climate.living", "heat", "heat", { hvac_action: "idle" }, { hvac_action: "heating" }),
+        ).toBe(true);
+    });
+
+    it("treats a missing attribute as empty", () => {
+        const l = { ...base, entityId: "media_player.tv", attribute: "media_title" };
+        expect(matchesListener(l, "media_player.tv", "off", "playing", {}, { media_title: "A" })).toBe(true);
+        expect(matchesListener(l, "media_player.tv", "off", "playing", {}, {})).toBe(false);
+    });
+
+    it("matches glob patterns", () => {
+        const l = { ...base, entityId: "binary_sensor.*_door", toState: "on" };
+        expect(matchesListener(l, "binary_sensor.front_door", "off", "on")).toBe(true);
+        expect(matchesListener(l, "binary_sensor.back_door", "off", "on")).toBe(true);
+        expect(matchesListener(l, "binary_sensor.kitchen_window", "off", "on")).toBe(false);
+    });
+
+    it("matches any entity in a list", () => {
+        const l = { ...base, entityId: ["binary_sensor.window_1", "binary_sensor.window_2"] };
+        expect(matchesListener(l, "binary_sensor.window_2", "off", "on")).toBe(true);
+        expect(matchesListener(l, "binary_sensor.window_3", "off", "on")).toBe(false);
+    });
+
+    it("ignores non-numeric states for thresholds", () => {
+        const l = { ...base, entityId: "sensor.freezer", above: -10 };
+        expect(matchesListener(l, "sensor.freezer", "unavailable", "-5")).toBe(false);
+        expect(matchesListener(l, "sensor.freezer", "-12", "unknown")).toBe(false);
+    });
+});
+
+describe("readAttribute", () => {
+    it("reads direct, nested and missing attributes as strings", () => {
+        const attrs = { battery_level: 80, "weird.key": "x", forecast: [{ temperature: 21 }], options: { a: 1 } };
+        expect(readAttribute(attrs, "battery_level")).toBe("80");
+        expect(readAttribute(attrs, "weird.key")).toBe("x");
+        expect(readAttribute(attrs, "forecast.0.temperature")).toBe("21");
+        expect(readAttribute(attrs, "options")).toBe('{"a":1}');
+        expect(readAttribute(attrs, "missing.path")).toBe("");
+        expect(readAttribute(undefined, "battery_level")).toBe("");
+    });
+});
+
+describe("listenerValue / listenerConditionHolds", () => {
+    const base: Listener = {
+        id: "test",
+        entityId: "cover.garage",
+        message: "close it",
+        oneShot: true,
+        createdAt: "",
+        forSeconds: 600,
+    };
+
+    it("reads the state or the watched attribute", () => {
+        expect(listenerValue(base, "open", { current_position: 100 })).toBe("open");
+        expect(listenerValue({ attribute: "current_position" }, "open", { current_position: 100 })).toBe("100");
+    });
+
+    it("requires the triggering value to persist without a condition", () => {
+        expect(listenerConditionHolds(base, "open", "open")).toBe(true);
+        expect(listenerConditionHolds(base, "open", "opening")).toBe(false);
+    });
+
+    it("checks to_state and thresholds against the current value", () => {
+        expect(listenerConditionHolds({ ...base, toState: "open" }, "open", "open")).toBe(true);
+        expect(listenerConditionHolds({ ...base, toState: "open" }, "open", "closed")).toBe(false);
+
+        const hot = { ...base, entityId: "sensor.temp", above: 30 };
+        // Still above the threshold, even though the value moved
+        expect(listenerConditionHolds(hot, "31", "33")).toBe(true);
+        expect(listenerConditionHolds(hot, "31", "29")).toBe(false);
+        expect(listenerConditionHolds(hot, "31", "unavailable")).toBe(false);
+    });
+});
+
+describe("loadPendingFires / savePendingFires", () => {
+    const fire = (listenerId: string, instance: string): PendingFire => ({
+        listenerId,
+        entityId: "cover.garage",
+        instance,
+        value: "open",
+        friendlyName: "Garage",
+        change: 'changed from "closed" to "open"',
+        since: "2026-01-01T00:00:00.000Z",
+        fireAt: "2026-01-01T00:10:00.000Z",
+    });
+
+    it("returns empty array when file does not exist", async () => {
+        expect(await loadPendingFires(tmpDir)).toEqual([]);
+    });
+
+    it("replaces only the saving instance's pending fires", async () => {
+        await savePendingFires(tmpDir, "home", [fire("a", "home"), fire("b", "home")]);
+        await savePendingFires(tmpDir, "cabin", [fire("c", "cabin")]);
+        await savePendingFires(tmpDir, "home", [fire("b", "home")]);
+        const fires = await loadPendingFires(tmpDir);
+        expect(fires.map((f) => f.listenerId).sort()).toEqual(["b", "c"]);
+    });
+});
+
+describe("loadListenerSnapshot / saveListenerSnapshot", () => {
+    const door = (state: string) => ({
+        entity_id: "binary_sensor.door",
+        state,
+        attributes: {},
+        last_changed: "2026-01-01T00:00:00.000Z",
+        last_updated: "2026-01-01T00:00:00.000Z",
+    });
+
+    it("returns an empty snapshot when the file does not exist", async () => {
+        expect(await loadListenerSnapshot(tmpDir, "home")).toEqual({});
+    });
+
+    it("keeps each instance's snapshot separate", async () => {
+        await saveListenerSnapshot(tmpDir, "home", { "binary_sensor.door": door("off") });
+        await saveListenerSnapshot(tmpDir, "cabin", { "binary_sensor.door": door("on") });
+        await saveListenerSnapshot(tmpDir, "home", { "binary_sensor.door": door("on") });
+        expect((await loadListenerSnapshot(tmpDir, "home"))["binary_sensor.door"]?.state).toBe("on");
+        expect(Object.keys(await loadListenerSnapshot(tmpDir, "cabin"))).toEqual(["binary_sensor.door"]);
+    });
+});
+
+describe("listenerBelongsTo", () => {
+    const base: Listener = {
+        id: "test",
+        entityId: "light.bedroom",
+        message: "do something",
+        oneShot: true,
+        createdAt: "",
+    };
+
+    it("assigns listeners without an instance to the default instance", () => {
+        expect(listenerBelongsTo(base, "default", "default")).toBe(true);
+        expect(listenerBelongsTo(base, "office", "default")).toBe(false);
+    });
+
+    it("matches the recorded instance", () => {
+        const l = { ...base, instance: "office" };
+        expect(listenerBelongsTo(l, "office", "default")).toBe(true);
+        expect(listenerBelongsTo(l, "default", "default")).toBe(false);
+    });
 });
 
 // ---- Formatting tests ----
@@ -206,4 +463,68 @@ describe("formatListener", () => {
         expect(result).toContain("recurring");
         expect(result).toContain("any state change");
     });
+
+    it("formats numeric thresholds", () => {
+        const l: Listener = {
+            id: "ghi789",
+            entityId: "sensor.freezer",
+            above: -10,
+            message: "freezer warming",
+            oneShot: false,
+            createdAt: "",
+        };
+        expect(formatListener(l)).toContain("`sensor.freezer` crosses above -10 (recurring)");
+        expect(formatListener({ ...l, below: 0 })).toContain("crosses between -10 and 0");
+    });
+
+    it("formats pattern and list listeners", () => {
+        const l: Listener = {
+            id: "mno345",
+            entityId: ["binary_sensor.*_door", "binary_sensor.window_1"],
+            toState: "on",
+            message: "something opened",
+            oneShot: false,
+            createdAt: "",
+        };
+        expect(formatListener(l)).toContain("[mno345] `binary_sensor.*_door`, `binary_sensor.window_1` to \"on\"");
+    });
+
+    it("formats attribute listeners", () => {
+        const l: Listener = {
+            id: "jkl012",
+            entityId: "media_player.tv",
+            attribute: "media_title",
+            message: "track changed",
+            oneShot: false,
+            createdAt: "",
+        };
+        expect(formatListener(l)).toContain("`media_player.tv` attribute media_title any change (recurring)");
+    });
+
+    it("formats the hold duration", () => {
+        const l: Listener = {
+            id: "pqr678",
+            entityId: "cover.garage",
+            toState: "open",
+            forSeconds: 600,
+            message: "remind me to close it",
+            oneShot: false,
+            createdAt: "",
+        };
+        expect(formatListener(l)).toContain('to "open" for 10m (recurring)');
+    });
+
+    it("shows the remaining budget", () => {
+        const l: Listener = {
+            id: "stu901",
+            entityId: "binary_sensor.motion",
+            toState: "on",
+            maxFires: 3,
+            fireCount: 1,
+            message: "someone moved",
+            oneShot: false,
+            createdAt: "",
+        };
+        expect(formatListener(l)).toContain("(recurring; fired 1/3, 2 left)");
+    });
 });
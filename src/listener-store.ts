@@ -1,25 +1,46 @@
 /**
  * Listener Store — file-based persistence for HA event listeners.
  *
- * Each listener describes a rule: "when entity X transitions to state Y,
- * inject message Z into the agent session."
+ * Each listener describes a rule: "when entity X (or one of its attributes)
+ * transitions to state Y, or its numeric value crosses a threshold, inject
+ * message Z into the agent session."
  */
 
 import fs from "node:fs/promises";
 import path from "node:path";
 import { randomUUID } from "node:crypto";
+import { formatDuration, matchesAnyPattern, type HAEntity } from "./ha-client.js";
+import type { DeliveryTarget } from "./agent-dispatch.js";
 
 // ---- Types ----
 
 export type Listener = {
     /** Unique identifier */
     id: string;
-    /** Entity to listen to (e.g. "light.bedroom") */
-    entityId: string;
+    /**
+     * Entity to listen to (e.g. "light.bedroom"), a glob pattern
+     * (e.g. "binary_sensor.*_door") or a list of either.
+     */
+    entityId: string | string[];
+    /**
+     * Attribute path to watch instead of the state (e.g. "media_title",
+     * "current_temperature"; dots reach into nested values). When set, the
+     * from/to/threshold conditions apply to the attribute value.
+     */
+    attribute?: string;
     /** Only trigger when old state matches (optional) */
     fromState?: string;
     /** Only trigger when new state matches (optional) */
     toState?: string;
+    /** Trigger when the numeric state rises above this value (optional) */
+    above?: number;
+    /** Trigger when the numeric state drops below this value (optional) */
+    below?: number;
+    /**
+     * Only fire once the condition has held continuously for this many
+     * seconds (e.g. "garage door open for 10 minutes"). A reversal cancels it.
+     */
+    forSeconds?: number;
     /** Message to inject into the agent when triggered */
     message: string;
     /**
@@ -28,11 +49,45 @@ export type Listener = {
      * Set to false for recurring reactions like "always notify me when door opens".
      */
     oneShot: boolean;
+    /** Minimum seconds between two fires; matches during the cooldown are ignored (optional) */
+    cooldownSeconds?: number;
+    /** Remove the listener after it has fired this many times (optional) */
+    maxFires?: number;
+    /** ISO timestamp after which the listener is removed (optional) */
+    expiresAt?: string;
+    /** Number of times the listener has fired */
+    fireCount?: number;
+    /** ISO timestamp of the last fire */
+    lastFiredAt?: string;
     /** ISO timestamp of creation */
     createdAt: string;
+    /** HA instance the entity lives on (unset = the default instance) */
+    instance?: string;
+    /** Where the triggered turn runs and replies; unset fields use the plugin's `delivery` defaults */
+    delivery?: DeliveryTarget;
 };
 
-export type ListenerInput = Omit<Listener, "id" | "createdAt">;
+export type ListenerInput = Omit<Listener, "id" | "createdAt" | "fireCount" | "lastFiredAt">;
+
+/** A `forSeconds` listener whose condition is holding, waiting to fire. */
+export type PendingFire = {
+    listenerId: string;
+    /** Entity that triggered (a glob listener can have several pending) */
+    entityId: string;
+    /** Instance whose listener service owns the timer */
+    instance: string;
+    /** State or attribute value that started the hold */
+    value: string;
+    /** Friendly name and change description captured at the transition */
+    friendlyName: string;
+    change: string;
+    /** Message rendered from the listener's template at the transition (optional) */
+    message?: string;
+    /** ISO timestamp the condition started holding */
+    since: string;
+    /** ISO timestamp the listener fires if the condition still holds */
+    fireAt: string;
+};
 
 // ---- Store path ----
 
@@ -42,6 +97,18 @@ export function resolveListenersPath(stateDir: string): string {
     return path.join(stateDir, "plugins", "homeassistant", LISTENERS_FILE);
 }
 
+const LISTENER_TIMERS_FILE = "listener-timers.json";
+
+export function resolveListenerTimersPath(stateDir: string): string {
+    return path.join(stateDir, "plugins", "homeassistant", LISTENER_TIMERS_FILE);
+}
+
+const LISTENER_SNAPSHOT_FILE = "listener-snapshot.json";
+
+export function resolveListenerSnapshotPath(stateDir: string): string {
+    return path.join(stateDir, "plugins", "homeassistant", LISTENER_SNAPSHOT_FILE);
+}
+
 // ---- CRUD ----
 
 export async function loadListeners(stateDir: string): Promise<Listener[]> {
@@ -62,6 +129,53 @@ export async function saveListeners(stateDir: string, listeners: Listener[]): Pr
     await fs.writeFile(filePath, JSON.stringify(listeners, null, 2) + "\n", "utf8");
 }
 
+export async function loadPendingFires(stateDir: string): Promise<PendingFire[]> {
+    try {
+        const raw = await fs.readFile(resolveListenerTimersPath(stateDir), "utf8");
+        const parsed = JSON.parse(raw);
+        return Array.isArray(parsed) ? (parsed as PendingFire[]) : [];
+    } catch {
+        return [];
+    }
+}
+
+/** Replace one instance's pending fires, keeping those of other instances. */
+export async function savePendingFires(stateDir: string, instance: string, fires: PendingFire[]): Promise<void> {
+    const others = (await loadPendingFires(stateDir)).filter((f) => f.instance !== instance);
+    const filePath = resolveListenerTimersPath(stateDir);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, JSON.stringify([...others, ...fires], null, 2) + "\n", "utf8");
+}
+
+/** Last-known states of listened entities, per instance, for catch-up after a reconnect. */
+type ListenerSnapshotFile = Record<string, Record<string, HAEntity>>;
+
+async function readSnapshotFile(stateDir: string): Promise<ListenerSnapshotFile> {
+    try {
+        const parsed = JSON.parse(await fs.readFile(resolveListenerSnapshotPath(stateDir), "utf8"));
+        return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? (parsed as ListenerSnapshotFile) : {};
+    } catch {
+        return {};
+    }
+}
+
+export async function loadListenerSnapshot(stateDir: string, instance: string): Promise<Record<string, HAEntity>> {
+    return (await readSnapshotFile(stateDir))[instance] ?? {};
+}
+
+/** Replace one instance's snapshot, keeping those of other instances. */
+export async function saveListenerSnapshot(
+    stateDir: string,
+    instance: string,
+    states: Record<string, HAEntity>,
+): Promise<void> {
+    const snapshot = await readSnapshotFile(stateDir);
+    snapshot[instance] = states;
+    const filePath = resolveListenerSnapshotPath(stateDir);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, JSON.stringify(snapshot, null, 2) + "\n", "utf8");
+}
+
 export async function addListener(stateDir: string, input: ListenerInput): Promise<Listener> {
     const listeners = await loadListeners(stateDir);
     const listener: Listener = {
@@ -83,36 +197,229 @@ export async function removeListener(stateDir: string, id: string): Promise<bool
     return true;
 }
 
+/**
+ * Count a fire for each listener and remove those that are one-shot, have
+ * reached `maxFires` or have expired. Returns the removed listeners.
+ */
+export async function recordListenerFires(
+    stateDir: string,
+    firedIds: string[],
+    now = Date.now(),
+): Promise<Listener[]> {
+    if (firedIds.length === 0) return [];
+    const fired = new Set(firedIds);
+    const listeners = await loadListeners(stateDir);
+    const removed: Listener[] = [];
+    const remaining = listeners.filter((l) => {
+        if (fired.has(l.id)) {
+            l.fireCount = (l.fireCount ?? 0) + 1;
+            l.lastFiredAt = new Date(now).toISOString();
+        }
+        const done =
+            (fired.has(l.id) && l.oneShot) ||
+            (l.maxFires !== undefined && (l.fireCount ?? 0) >= l.maxFires) ||
+            isListenerExpired(l, now);
+        if (done) removed.push(l);
+        return !done;
+    });
+    await saveListeners(stateDir, remaining);
+    return removed;
+}
+
+/** Remove expired listeners. Returns the removed listeners. */
+export async function removeExpiredListeners(stateDir: string, now = Date.now()): Promise<Listener[]> {
+    const listeners = await loadListeners(stateDir);
+    const expired = listeners.filter((l) => isListenerExpired(l, now));
+    if (expired.length > 0) {
+        await saveListeners(stateDir, listeners.filter((l) => !isListenerExpired(l, now)));
+    }
+    return expired;
+}
+
+// ---- Limits ----
+
+export function isListenerExpired(l: Pick<Listener, "expiresAt">, now = Date.now()): boolean {
+    return l.expiresAt !== undefined && new Date(l.expiresAt).getTime() <= now;
+}
+
+/** Milliseconds left in the listener's cooldown, or 0 if it may fire. */
+export function listenerCooldownRemaining(
+    l: Pick<Listener, "cooldownSeconds" | "lastFiredAt">,
+    now = Date.now(),
+): number {
+    if (!l.cooldownSeconds || !l.lastFiredAt) return 0;
+    return Math.max(0, new Date(l.lastFiredAt).getTime() + l.cooldownSeconds * 1000 - now);
+}
+
+/** Whether the listener may fire now: not expired, not cooling down, fires left. */
+export function listenerCanFire(l: Listener, now = Date.now()): boolean {
+    return (
+        !isListenerExpired(l, now) &&
+        listenerCooldownRemaining(l, now) === 0 &&
+        (l.maxFires === undefined || (l.fireCount ?? 0) < l.maxFires)
+    );
+}
+
+/** Describe fire count, cooldown and expiry (e.g. "fired 2/5, cooldown 10m, expires in 3h"), or null. */
+export function describeListenerBudget(l: Listener, now = Date.now()): string | null {
+    const parts: string[] = [];
+    const fires = l.fireCount ?? 0;
+    if (l.maxFires !== undefined) {
+        parts.push(`fired ${fires}/${l.maxFires}, ${Math.max(0, l.maxFires - fires)} left`);
+    } else if (fires > 0) {
+        parts.push(`fired ${fires}×`);
+    }
+    if (l.cooldownSeconds) {
+        const remaining = listenerCooldownRemaining(l, now);
+        parts.push(
+            `cooldown ${formatDuration(l.cooldownSeconds * 1000)}` +
+                (remaining > 0 ? ` (${formatDuration(remaining)} left)` : ""),
+        );
+    }
+    if (l.expiresAt) {
+        const ms = new Date(l.expiresAt).getTime() - now;
+        parts.push(ms > 0 ? `expires in ${formatDuration(ms)}` : "expired");
+    }
+    return parts.length > 0 ? parts.join(", ") : null;
+}
+
 // ---- Matching ----
 
+/** The listener's entity IDs / patterns as a list. */
+export function listenerEntities(listener: Pick<Listener, "entityId">): string[] {
+    return Array.isArray(listener.entityId) ? listener.entityId : [listener.entityId];
+}
+
+/** Whether the listener covers `entityId` (exact ID or glob match). */
+export function listenerCoversEntity(listener: Pick<Listener, "entityId">, entityId: string): boolean {
+    return matchesAnyPattern(entityId, listenerEntities(listener));
+}
+
+/** Whether a listener is handled by the given instance's listener service. */
+export function listenerBelongsTo(
+    listener: Listener,
+    instance: string,
+    defaultInstance: string,
+): boolean {
+    return (listener.instance ?? defaultInstance) === instance;
+}
+
+/**
+ * Read an attribute by path and render it as a string for matching.
+ * Missing values are "". An exact key wins over a dotted path.
+ */
+export function readAttribute(attributes: Record<string, unknown> | undefined, attributePath: string): string {
+    let value: unknown = attributes?.[attributePath];
+    if (value === undefined && attributePath.includes(".")) {
+        value = attributePath.split(".").reduce<unknown>((cur, key) => {
+            if (cur === null || typeof cur !== "object") return undefined;
+            return (cur as Record<string, unknown>)[key];
+        }, attributes);
+    }
+    if (value === undefined || value === null) return "";
+    return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+function parseNumericState(state: string): number | null {
+    if (state.trim() === "") return null;
+    const value = Number(state);
+    return Number.isFinite(value) ? value : null;
+}
+
+/** Whether a numeric state satisfies the listener's above/below thresholds. */
+function withinThreshold(listener: Listener, value: number): boolean {
+    if (listener.above !== undefined && !(value > listener.above)) return false;
+    if (listener.below !== undefined && !(value < listener.below)) return false;
+    return true;
+}
+
 /**
  * Check if a state change event matches a listener's criteria.
+ *
+ * `above`/`below` fire on crossing: the new value must be past the
+ * threshold and the old one not. Changes from a non-numeric state (e.g.
+ * "unavailable") are not crossings.
+ *
+ * For attribute listeners, pass the old and new attributes; the conditions
+ * are then checked against the attribute value instead of the state.
  */
 export function matchesListener(
     listener: Listener,
     entityId: string,
-    oldState: string,
-    newState: string,
+    oldStateValue: string,
+    newStateValue: string,
+    oldAttributes?: Record<string, unknown>,
+    newAttributes?: Record<string, unknown>,
 ): boolean {
-    if (listener.entityId !== entityId) return false;
+    if (!listenerCoversEntity(listener, entityId)) return false;
+    const oldState = listener.attribute ? readAttribute(oldAttributes, listener.attribute) : oldStateValue;
+    const newState = listener.attribute ? readAttribute(newAttributes, listener.attribute) : newStateValue;
     // Skip if state didn't actually change
     if (oldState === newState) return false;
     if (listener.fromState && listener.fromState !== oldState) return false;
     if (listener.toState && listener.toState !== newState) return false;
+    if (listener.above !== undefined || listener.below !== undefined) {
+        const oldValue = parseNumericState(oldState);
+        const newValue = parseNumericState(newState);
+        if (oldValue === null || newValue === null) return false;
+        if (!withinThreshold(listener, newValue) || withinThreshold(listener, oldValue)) return false;
+    }
     return true;
 }
 
+/** The value a listener watches: the state, or the attribute if it has one. */
+export function listenerValue(
+    listener: Pick<Listener, "attribute">,
+    state: string,
+    attributes?: Record<string, unknown>,
+): string {
+    return listener.attribute ? readAttribute(attributes, listener.attribute) : state;
+}
+
+/**
+ * Whether the condition that triggered a `forSeconds` listener still holds.
+ * With toState or a threshold, the current value must still satisfy them;
+ * otherwise it must still equal the value that triggered.
+ */
+export function listenerConditionHolds(listener: Listener, triggeredValue: string, currentValue: string): boolean {
+    const hasThreshold = listener.above !== undefined || listener.below !== undefined;
+    if (!listener.toState && !hasThreshold) return currentValue === triggeredValue;
+    if (listener.toState && listener.toState !== currentValue) return false;
+    if (hasThreshold) {
+        const value = parseNumericState(currentValue);
+        if (value === null || !withinThreshold(listener, value)) return false;
+    }
+    return true;
+}
+
+/** Describe a listener's numeric threshold (e.g. "above -10", "between 40 and 60"), or null. */
+export function describeThreshold(l: Pick<Listener, "above" | "below">): string | null {
+    if (l.above !== undefined && l.below !== undefined) return `between ${l.above} and ${l.below}`;
+    if (l.above !== undefined) return `above ${l.above}`;
+    if (l.below !== undefined) return `below ${l.below}`;
+    return null;
+}
+
 /**
  * Format a listener for display to the agent.
  */
-export function formatListener(l: Listener): string {
+export function formatListener(l: Listener, now = Date.now()): string {
     const trigger = [
         l.fromState ? `from "${l.fromState}"` : null,
         l.toState ? `to "${l.toState}"` : null,
     ]
         .filter(Boolean)
         .join(" → ");
-    const triggerStr = trigger || "any state change";
+    const threshold = describeThreshold(l);
+    const triggerStr =
+        [trigger, threshold ? `crosses ${threshold}` : null].filter(Boolean).join(", ") ||
+        (l.attribute ? "any change" : "any state change");
     const mode = l.oneShot ? "one-shot" : "recurring";
-    return `[${l.id}] \`${l.entityId}\` ${triggerStr} (${mode}) → "${l.message}"`;
+    const where = l.instance ? ` @${l.instance}` : "";
+    const attribute = l.attribute ? ` attribute ${l.attribute}` : "";
+    const hold = l.forSeconds ? ` for ${formatDuration(l.forSeconds * 1000)}` : "";
+    const entities = listenerEntities(l).map((e) => `\`${e}\``).join(", ");
+    const budget = describeListenerBudget(l, now);
+    const modeStr = budget ? `${mode}; ${budget}` : mode;
+    return `[${l.id}] ${entities}${where}${attribute} ${triggerStr}${hold} (${modeStr}) → "${l.message}"`;
 }
@@ -0,0 +1,115 @@
+/**
+ * Unit tests for listener message templates.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+    isTemplate,
+    renderTemplate,
+    templateEntityRefs,
+    validateTemplate,
+    type TemplateContext,
+} from "./listener-template.js";
+import type { HAEntity } from "./ha-client.js";
+
+const freezer = (state: string, lastChanged: string): HAEntity => ({
+    entity_id: "sensor.freezer",
+    state,
+    attributes: { friendly_name: "Freezer", unit_of_measurement: "°C" },
+    last_changed: lastChanged,
+    last_updated: lastChanged,
+});
+
+const ctx: TemplateContext = {
+    entityId: "sensor.freezer",
+    friendlyName: "Freezer",
+    oldState: freezer("-18", "2025-01-31T06:00:00Z"),
+    newState: freezer("-9", "2025-01-31T08:30:00Z"),
+    entities: new Map([
+        [
+            "sensor.outdoor",
+            {
+                entity_id: "sensor.outdoor",
+                state: "24",
+                attributes: { unit_of_measurement: "°C" },
+                last_changed: "",
+                last_updated: "",
+            },
+        ],
+    ]),
+    timeZone: "Europe/Berlin",
+};
+
+describe("renderTemplate", () => {
+    it("fills in event placeholders", () => {
+        expect(
+            renderTemplate(
+                "{{friendly_name}} is at {{new_state}}{{attributes.unit_of_measurement}}, " +
+                    "was {{ old_state }} since {{old_last_changed}} ({{duration}})",
+                ctx,
+            ),
+        ).toBe("Freezer is at -9°C, was -18 since 2025-01-31 07:00 (2h 30m)");
+    });
+
+    it("reads other entities and renders hidden ones as unknown", () => {
+        expect(
+            renderTemplate(
+                "Outside: {{states.sensor.outdoor}}{{states.sensor.outdoor.unit_of_measurement}}, " +
+                    "garage: {{states.cover.garage}}",
+                ctx,
+            ),
+        ).toBe("Outside: 24°C, garage: unknown");
+    });
+
+    it("uses the watched attribute for old/new value", () => {
+        const tv: TemplateContext = {
+            ...ctx,
+            attribute: "media_title",
+            oldState: { ...ctx.oldState, attributes: { media_title: "A" } },
+            newState: { ...ctx.newState, attributes: { media_title: "B" } },
+        };
+        expect(renderTemplate("{{old_value}} → {{new_value}}", tv)).toBe("A → B");
+    });
+
+    it("keeps ISO timestamps without a time zone", () => {
+        expect(renderTemplate("{{new_last_changed}}", { ...ctx, timeZone: undefined })).toBe("2025-01-31T08:30:00Z");
+    });
+});
+
+describe("validateTemplate", () => {
+    const visible = (id: string) => id === "sensor.outdoor";
+
+    it("accepts plain messages and known placeholders", () => {
+        expect(validateTemplate("commit git", visible)).toBeNull();
+        expect(
+            validateTemplate("{{friendly_name}} {{attributes.battery}} {{states.sensor.outdoor.unit}}", visible),
+        ).toBeNull();
+    });
+
+    it("rejects unknown placeholders with the list of available ones", () => {
+        const error = validateTemplate("{{new_stat}} {{attributes.}}", visible);
+        expect(error).toContain("{{new_stat}}, {{attributes.}}");
+        expect(error).toContain("Available: {{entity_id}}");
+    });
+
+    it("rejects entities that are hidden or unknown", () => {
+        expect(validateTemplate("{{states.lock.front}}", visible)).toBe(
+            "Message template references lock.front, which is not found or blocked by ACL.",
+        );
+    });
+
+    it("rejects unbalanced braces", () => {
+        expect(validateTemplate("{{new_state", visible)).toBe("Unbalanced {{ }} in message template.");
+    });
+});
+
+describe("isTemplate / templateEntityRefs", () => {
+    it("finds placeholders and referenced entities", () => {
+        expect(isTemplate("plain")).toBe(false);
+        expect(isTemplate("{{new_state}}")).toBe(true);
+        expect(templateEntityRefs("{{states.sensor.a}} {{states.sensor.a.unit}} {{states.light.b}}")).toEqual([
+            "sensor.a",
+            "light.b",
+        ]);
+    });
+});
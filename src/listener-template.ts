@@ -0,0 +1,175 @@
+/**
+ * Listener message templates.
+ *
+ * A listener's message may contain `{{placeholder}}`s that are filled in
+ * from the triggering event when it fires, e.g.
+ * "Freezer is at {{new_state}}{{attributes.unit_of_measurement}}, was
+ * {{old_state}} since {{old_last_changed}}". Other entities are read with
+ * `{{states.sensor.outdoor_temp}}` (state) or
+ * `{{states.sensor.outdoor_temp.unit_of_measurement}}` (attribute).
+ *
+ * Rendering only sees what the ACL lets the agent see: entity states come
+ * in already redacted, and hidden entities render as "unknown".
+ */
+
+import { formatDuration, type HAEntity } from "./ha-client.js";
+import { formatZonedTime } from "./cron.js";
+import { readAttribute } from "./listener-store.js";
+
+// ---- Placeholders ----
+
+const PLACEHOLDER = /\{\{\s*([^{}]*?)\s*\}\}/g;
+
+/** Placeholders taking no path, with what they render to. */
+export const TEMPLATE_FIELDS: Record<string, string> = {
+    entity_id: "ID of the entity that triggered",
+    friendly_name: "its friendly name",
+    old_state: "state before the change",
+    new_state: "state after the change",
+    old_value: "watched value (state or attribute) before the change",
+    new_value: "watched value after the change",
+    old_last_changed: "when the old state began (local time)",
+    new_last_changed: "when the new state began (local time)",
+    duration: "how long the old state lasted",
+};
+
+/** Placeholder prefixes followed by a path. */
+const PATH_PREFIXES = ["attributes.", "old_attributes.", "states."];
+
+/** The placeholder names in a template, in order. */
+export function templatePlaceholders(template: string): string[] {
+    return [...template.matchAll(PLACEHOLDER)].map((m) => m[1]!);
+}
+
+/** Whether a message uses any placeholders. */
+export function isTemplate(message: string): boolean {
+    return templatePlaceholders(message).length > 0;
+}
+
+/** Split `states.<domain>.<object_id>[.<attribute path>]` into entity ID and attribute path. */
+function parseStatesRef(name: string): { entityId: string; attributePath?: string } | null {
+    const parts = name.slice("states.".length).split(".");
+    if (parts.length < 2 || !parts[0] || !parts[1]) return null;
+    const attributePath = parts.slice(2).join(".");
+    return { entityId: `${parts[0]}.${parts[1]}`, attributePath: attributePath || undefined };
+}
+
+/** Entity IDs referenced via `{{states.…}}`, deduplicated. */
+export function templateEntityRefs(template: string): string[] {
+    const ids = templatePlaceholders(template)
+        .filter((name) => name.startsWith("states."))
+        .map((name) => parseStatesRef(name)?.entityId)
+        .filter((id): id is string => id !== undefined);
+    return [...new Set(ids)];
+}
+
+// ---- Validation ----
+
+/**
+ * Check a template: balanced braces, known placeholders, and referenced
+ * entities visible to the agent. Returns an error message, or null if valid.
+ */
+export function validateTemplate(template: string, isVisible: (entityId: string) => boolean): string | null {
+    if (/\{\{|\}\}/.test(template.replace(PLACEHOLDER, ""))) {
+        return "Unbalanced {{ }} in message template.";
+    }
+
+    const unknown: string[] = [];
+    const hidden: string[] = [];
+    for (const name of templatePlaceholders(template)) {
+        if (name in TEMPLATE_FIELDS) continue;
+        const prefix = PATH_PREFIXES.find((p) => name.startsWith(p) && name.length > p.length);
+        if (!prefix) {
+            unknown.push(name);
+            continue;
+        }
+        if (prefix === "states.") {
+            const ref = parseStatesRef(name);
+            if (!ref) unknown.push(name);
+            else if (!isVisible(ref.entityId)) hidden.push(ref.entityId);
+        }
+    }
+
+    if (unknown.length > 0) {
+        return (
+            `Unknown placeholder(s) in message template: ${unknown.map((n) => `{{${n}}}`).join(", ")}. ` +
+            `Available: ${Object.keys(TEMPLATE_FIELDS).map((n) => `{{${n}}}`).join(", ")}, ` +
+            "{{attributes.<name>}}, {{old_attributes.<name>}}, {{states.<entity_id>}}, {{states.<entity_id>.<attribute>}}."
+        );
+    }
+    if (hidden.length > 0) {
+        return `Message template references ${[...new Set(hidden)].join(", ")}, which is not found or blocked by ACL.`;
+    }
+    return null;
+}
+
+// ---- Rendering ----
+
+export type TemplateContext = {
+    entityId: string;
+    friendlyName: string;
+    /** Old and new state, already redacted */
+    oldState: HAEntity;
+    newState: HAEntity;
+    /** Attribute the listener watches, if any */
+    attribute?: string;
+    /** Other referenced entities, already ACL-filtered and redacted; missing = hidden or unknown */
+    entities: Map<string, HAEntity>;
+    /** HA time zone for timestamps; ISO timestamps are kept without it */
+    timeZone?: string;
+};
+
+function formatTimestamp(iso: string | undefined, timeZone: string | undefined): string {
+    if (!iso) return "";
+    const t = new Date(iso).getTime();
+    if (Number.isNaN(t) || !timeZone) return iso;
+    return formatZonedTime(t, timeZone);
+}
+
+function renderPlaceholder(name: string, ctx: TemplateContext): string {
+    const watched = (entity: HAEntity) =>
+        ctx.attribute ? readAttribute(entity.attributes, ctx.attribute) : entity.state;
+
+    switch (name) {
+        case "entity_id":
+            return ctx.entityId;
+        case "friendly_name":
+            return ctx.friendlyName;
+        case "old_state":
+            return ctx.oldState.state;
+        case "new_state":
+            return ctx.newState.state;
+        case "old_value":
+            return watched(ctx.oldState);
+        case "new_value":
+            return watched(ctx.newState);
+        case "old_last_changed":
+            return formatTimestamp(ctx.oldState.last_changed, ctx.timeZone);
+        case "new_last_changed":
+            return formatTimestamp(ctx.newState.last_changed, ctx.timeZone);
+        case "duration": {
+            const from = new Date(ctx.oldState.last_changed).getTime();
+            const to = new Date(ctx.newState.last_changed).getTime();
+            return Number.isNaN(from) || Number.isNaN(to) ? "" : formatDuration(to - from);
+        }
+    }
+
+    if (name.startsWith("attributes.")) {
+        return readAttribute(ctx.newState.attributes, name.slice("attributes.".length));
+    }
+    if (name.startsWith("old_attributes.")) {
+        return readAttribute(ctx.oldState.attributes, name.slice("old_attributes.".length));
+    }
+    if (name.startsWith("states.")) {
+        const ref = parseStatesRef(name);
+        const entity = ref ? ctx.entities.get(ref.entityId) : undefined;
+        if (!entity) return "unknown";
+        return ref!.attributePath ? readAttribute(entity.attributes, ref!.attributePath) : entity.state;
+    }
+    return `{{${name}}}`;
+}
+
+/** Fill in a template's placeholders. Unknown placeholders are left as-is. */
+export function renderTemplate(template: string, ctx: TemplateContext): string {
+    return template.replace(PLACEHOLDER, (_match, name: string) => renderPlaceholder(name, ctx));
+}
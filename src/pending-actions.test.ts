@@ -0,0 +1,74 @@
+/**
+ * Unit tests for the pending action store (service calls awaiting approval).
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "node:fs/promises";
+import path from "node:path";
+import os from "node:os";
+import {
+    addPendingAction,
+    formatPendingAction,
+    loadPendingActions,
+    resolvePendingActionsPath,
+    savePendingActions,
+    takePendingAction,
+    type PendingActionInput,
+} from "./pending-actions.js";
+
+let tmpDir: string;
+
+beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "ha-pending-test-"));
+});
+
+afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+});
+
+const input: PendingActionInput = {
+    instance: "default",
+    domain: "lock",
+    service: "unlock",
+    entityIds: ["lock.front_door"],
+    reason: "lock.unlock is listed in requireConfirmation.services",
+};
+
+describe("pending action store", () => {
+    it("stores actions in the plugin state dir", async () => {
+        const action = await addPendingAction(tmpDir, input, 10);
+        expect(action.id).toMatch(/^[0-9a-f]{8}$/);
+        const raw = JSON.parse(await fs.readFile(resolvePendingActionsPath(tmpDir), "utf8"));
+        expect(raw).toHaveLength(1);
+        expect(raw[0].entityIds).toEqual(["lock.front_door"]);
+    });
+
+    it("drops expired actions on load", async () => {
+        const action = await addPendingAction(tmpDir, input, 10);
+        await savePendingActions(tmpDir, [{ ...action, expiresAt: new Date(Date.now() - 1000).toISOString() }]);
+        expect(await loadPendingActions(tmpDir)).toEqual([]);
+        expect(await takePendingAction(tmpDir, action.id)).toBeNull();
+    });
+
+    it("takes an action exactly once", async () => {
+        const action = await addPendingAction(tmpDir, input, 10);
+        expect((await takePendingAction(tmpDir, action.id))?.service).toBe("unlock");
+        expect(await takePendingAction(tmpDir, action.id)).toBeNull();
+        expect(await loadPendingActions(tmpDir)).toEqual([]);
+    });
+
+    it("returns null for unknown IDs", async () => {
+        await addPendingAction(tmpDir, input, 10);
+        expect(await takePendingAction(tmpDir, "nope")).toBeNull();
+        expect(await loadPendingActions(tmpDir)).toHaveLength(1);
+    });
+});
+
+describe("formatPendingAction", () => {
+    it("shows the call, reason and expiry", async () => {
+        const action = await addPendingAction(tmpDir, { ...input, data: { code: "1234" } }, 5);
+        const text = formatPendingAction(action);
+        expect(text).toContain(`[${action.id}] lock.unlock on lock.front_door {"code":"1234"} @default`);
+        expect(text).toContain("expires in 5m");
+    });
+});
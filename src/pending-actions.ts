@@ -0,0 +1,102 @@
+/**
+ * Pending Actions — service calls waiting for human approval.
+ *
+ * A call that matches `acl.requireConfirmation` is stored here instead of
+ * executing. The user approves it with `/ha approve <id>`; entries expire.
+ */
+
+import fs from "node:fs/promises";
+import path from "node:path";
+import { randomUUID } from "node:crypto";
+
+// ---- Types ----
+
+export type PendingAction = {
+    /** Unique identifier, quoted in `/ha approve <id>` */
+    id: string;
+    /** HA instance to run the call on */
+    instance: string;
+    domain: string;
+    service: string;
+    /** Concrete entities, resolved and ACL-checked when the call was requested */
+    entityIds: string[];
+    data?: Record<string, unknown>;
+    /** Why confirmation is required */
+    reason: string;
+    /** Tool call that requested the action, carried into the audit log */
+    toolCallId?: string;
+    /** ISO timestamp of creation */
+    createdAt: string;
+    /** ISO timestamp after which the action can no longer be approved */
+    expiresAt: string;
+};
+
+export type PendingActionInput = Omit<PendingAction, "id" | "createdAt" | "expiresAt">;
+
+// ---- Store path ----
+
+const PENDING_ACTIONS_FILE = "pending-actions.json";
+
+export function resolvePendingActionsPath(stateDir: string): string {
+    return path.join(stateDir, "plugins", "homeassistant", PENDING_ACTIONS_FILE);
+}
+
+// ---- CRUD ----
+
+/** Load pending actions, dropping expired ones. */
+export async function loadPendingActions(stateDir: string, now = Date.now()): Promise<PendingAction[]> {
+    const filePath = resolvePendingActionsPath(stateDir);
+    try {
+        const raw = await fs.readFile(filePath, "utf8");
+        const parsed = JSON.parse(raw);
+        if (!Array.isArray(parsed)) return [];
+        return (parsed as PendingAction[]).filter((a) => new Date(a.expiresAt).getTime() > now);
+    } catch {
+        return [];
+    }
+}
+
+export async function savePendingActions(stateDir: string, actions: PendingAction[]): Promise<void> {
+    const filePath = resolvePendingActionsPath(stateDir);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, JSON.stringify(actions, null, 2) + "\n", "utf8");
+}
+
+export async function addPendingAction(
+    stateDir: string,
+    input: PendingActionInput,
+    expiresMinutes: number,
+): Promise<PendingAction> {
+    const actions = await loadPendingActions(stateDir);
+    const now = Date.now();
+    const action: PendingAction = {
+        ...input,
+        id: randomUUID().slice(0, 8),
+        createdAt: new Date(now).toISOString(),
+        expiresAt: new Date(now + expiresMinutes * 60_000).toISOString(),
+    };
+    actions.push(action);
+    await savePendingActions(stateDir, actions);
+    return action;
+}
+
+/** Remove and return a pending action; null if unknown or expired. */
+export async function takePendingAction(stateDir: string, id: string): Promise<PendingAction | null> {
+    const actions = await loadPendingActions(stateDir);
+    const idx = actions.findIndex((a) => a.id === id);
+    if (idx < 0) return null;
+    const [action] = actions.splice(idx, 1);
+    await savePendingActions(stateDir, actions);
+    return action ?? null;
+}
+
+// ---- Formatting ----
+
+export function formatPendingAction(a: PendingAction): string {
+    const minutesLeft = Math.max(0, Math.round((new Date(a.expiresAt).getTime() - Date.now()) / 60_000));
+    const data = a.data && Object.keys(a.data).length > 0 ? ` ${JSON.stringify(a.data)}` : "";
+    return (
+        `[${a.id}] ${a.domain}.${a.service} on ${a.entityIds.join(", ")}${data} ` +
+        `@${a.instance} — ${a.reason} (expires in ${minutesLeft}m)`
+    );
+}
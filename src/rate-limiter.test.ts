@@ -0,0 +1,159 @@
+/**
+ * Unit tests for service call rate limits and the daily quota.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import fs from "node:fs/promises";
+import path from "node:path";
+import os from "node:os";
+import { RateLimiter, loadRateLimitState } from "./rate-limiter.js";
+import { HAClient } from "./ha-client.js";
+
+let tmpDir: string;
+
+beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "ha-ratelimit-test-"));
+});
+
+afterEach(async () => {
+    vi.unstubAllGlobals();
+    await fs.rm(tmpDir, { recursive: true, force: true });
+});
+
+const T0 = new Date("2025-06-01T12:00:00").getTime();
+
+describe("RateLimiter", () => {
+    it("allows everything without rules", async () => {
+        const limiter = new RateLimiter({ instance: "default" });
+        expect(await limiter.check(["switch.a"], T0)).toEqual({ allowed: ["switch.a"], refused: [] });
+    });
+
+    it("shares one budget across matching entities", async () => {
+        const limiter = new RateLimiter({
+            instance: "default",
+            rules: [{ entities: "switch.*", maxCalls: 2, windowSeconds: 60 }],
+        });
+        await limiter.record(["switch.a"], T0);
+        await limiter.record(["switch.b"], T0 + 1000);
+
+        const result = await limiter.check(["switch.c", "light.x"], T0 + 2000);
+        expect(result.allowed).toEqual(["light.x"]);
+        expect(result.refused[0]!.target).toBe("switch.c");
+        expect(result.refused[0]!.reason).toBe(
+            "rate limit: at most 2 calls per minute to switch.*, retry in 58s (rateLimits)",
+        );
+
+        // The window slides
+        expect((await limiter.check(["switch.c"], T0 + 61_000)).allowed).toEqual(["switch.c"]);
+    });
+
+    it("counts per entity when perEntity is set", async () => {
+        const limiter = new RateLimiter({
+            instance: "default",
+            rules: [{ entities: "switch.*", maxCalls: 1, windowSeconds: 60, perEntity: true }],
+        });
+        await limiter.record(["switch.a"], T0);
+        const result = await limiter.check(["switch.a", "switch.b"], T0 + 1000);
+        expect(result.allowed).toEqual(["switch.b"]);
+        expect(result.refused[0]!.reason).toContain("(per entity)");
+    });
+
+    it("enforces the daily quota and resets it the next day", async () => {
+        const limiter = new RateLimiter({ instance: "default", dailyQuota: 2 });
+        await limiter.record(["light.a"], T0);
+        await limiter.record(["light.a", "light.b"], T0 + 1000);
+
+        const result = await limiter.check(["light.a"], T0 + 2000);
+        expect(result.allowed).toEqual([]);
+        expect(result.refused[0]!.reason).toBe("daily quota of 2 service calls reached (dailyQuota)");
+
+        expect((await limiter.check(["light.a"], T0 + 24 * 3600_000)).allowed).toEqual(["light.a"]);
+    });
+
+    it("persists counters across instances of the limiter", async () => {
+        const options = {
+            instance: "home",
+            stateDir: tmpDir,
+            rules: [{ entities: "switch.*", maxCalls: 1, windowSeconds: 3600 }],
+            dailyQuota: 10,
+        };
+        await new RateLimiter(options).record(["switch.a"], T0);
+
+        const state = await loadRateLimitState(tmpDir, "home");
+        expect(state.dayCount).toBe(1);
+
+        const restarted = new RateLimiter(options);
+        const result = await restarted.check(["switch.a"], T0 + 1000);
+        expect(result.refused[0]!.reason).toContain("at most 1 call per hour");
+    });
+
+    it("counts allowed calls at check time so concurrent checks can't overshoot", async () => {
+        const limiter = new RateLimiter({
+            instance: "home",
+            stateDir: tmpDir,
+            rules: [{ entities: "switch.*", maxCalls: 2, windowSeconds: 60 }],
+            dailyQuota: 3,
+        });
+        const results = await Promise.all(
+            ["switch.a", "switch.b", "switch.c", "light.x", "light.y"].map((id) => limiter.check([id], T0)),
+        );
+        expect(results.flatMap((r) => r.allowed)).toEqual(["switch.a", "switch.b", "light.x"]);
+        expect(results[4]!.refused[0]!.reason).toContain("daily quota of 3");
+
+        // A released slot can be used again
+        await limiter.release(["switch.b"], T0);
+        expect((await limiter.check(["switch.c"], T0 + 1000)).allowed).toEqual(["switch.c"]);
+        expect((await loadRateLimitState(tmpDir, "home")).dayCount).toBe(3);
+    });
+});
+
+describe("HAClient rate limits", () => {
+    it("refuses calls over the daily quota without calling HA", async () => {
+        const client = new HAClient({
+            url: "http://fake",
+            token: "fake",
+            blockedEntities: [],
+            writableDomains: ["switch"],
+            dailyQuota: 0,
+        });
+        const result = await client.callService("switch", "toggle", "switch.fan");
+        expect(result.success).toBe(false);
+        expect(result.outcome).toBe("refused");
+        expect(result.message).toContain("daily quota of 0 service calls reached");
+    });
+
+    it("holds the daily quota across parallel calls and releases calls HA rejects", async () => {
+        const posts: string[] = [];
+        vi.stubGlobal("fetch", async (url: string, init?: RequestInit) => {
+            if (init?.method !== "POST") return new Response("unavailable", { status: 503 });
+            posts.push(url);
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            return url.endsWith("/turn_off")
+                ? new Response("boom", { status: 500 })
+                : new Response("[]", { status: 200 });
+        });
+        const client = new HAClient({
+            url: "http://fake",
+            token: "fake",
+            blockedEntities: [],
+            writableDomains: ["switch"],
+            dailyQuota: 2,
+        });
+        const results = await Promise.all(
+            ["switch.a", "switch.b", "switch.c", "switch.d"].map((id) => client.callService("switch", "toggle", id)),
+        );
+        expect(results.map((r) => r.outcome)).toEqual(["executed", "executed", "refused", "refused"]);
+        expect(posts).toHaveLength(2);
+
+        // A failed call doesn't use up quota
+        const quota1 = new HAClient({
+            url: "http://fake",
+            token: "fake",
+            blockedEntities: [],
+            writableDomains: ["switch"],
+            dailyQuota: 1,
+        });
+        await expect(quota1.callService("switch", "turn_off", "switch.a")).rejects.toThrow("HA API 500");
+        expect((await quota1.callService("switch", "toggle", "switch.a")).outcome).toBe("executed");
+    });
+});
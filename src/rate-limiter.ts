@@ -0,0 +1,213 @@
+/**
+ * Rate limits and daily quota for service calls.
+ *
+ * Rules cap calls to entities matching a glob within a sliding window
+ * (e.g. at most 5 calls per minute to `switch.*`), either shared across all
+ * matching entities or per entity. A daily quota caps executed calls per
+ * instance. Counters are persisted in the plugin state dir so a restart
+ * doesn't reset them.
+ */
+
+import fs from "node:fs/promises";
+import path from "node:path";
+import { matchesAnyPattern } from "./ha-client.js";
+
+// ---- Types ----
+
+export type RateLimitRule = {
+    /** Entity glob the limit applies to (e.g. "switch.*", "lock.front_door") */
+    entities: string;
+    /** Maximum calls within the window */
+    maxCalls: number;
+    /** Window length in seconds (e.g. 60) */
+    windowSeconds: number;
+    /** Count each matching entity separately instead of sharing one budget */
+    perEntity?: boolean;
+};
+
+export type RateLimitState = {
+    /** Bucket key → call timestamps (ms) inside the longest window */
+    buckets: Record<string, number[]>;
+    /** Local date (YYYY-MM-DD) the daily count belongs to */
+    day: string;
+    dayCount: number;
+};
+
+export type RateLimitCheck = {
+    allowed: string[];
+    refused: { target: string; reason: string }[];
+};
+
+// ---- Store path ----
+
+const RATE_LIMITS_DIR = "rate-limits";
+
+export function resolveRateLimitPath(stateDir: string, instance: string): string {
+    return path.join(stateDir, "plugins", "homeassistant", RATE_LIMITS_DIR, `${instance}.json`);
+}
+
+export async function loadRateLimitState(stateDir: string, instance: string): Promise<RateLimitState> {
+    try {
+        const raw = await fs.readFile(resolveRateLimitPath(stateDir, instance), "utf8");
+        const parsed = JSON.parse(raw) as Partial<RateLimitState>;
+        return { buckets: parsed.buckets ?? {}, day: parsed.day ?? "", dayCount: parsed.dayCount ?? 0 };
+    } catch {
+        return { buckets: {}, day: "", dayCount: 0 };
+    }
+}
+
+export async function saveRateLimitState(stateDir: string, instance: string, state: RateLimitState): Promise<void> {
+    const filePath = resolveRateLimitPath(stateDir, instance);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, JSON.stringify(state, null, 2) + "\n", "utf8");
+}
+
+// ---- Helpers ----
+
+function localDay(now: number): string {
+    return new Date(now).toLocaleDateString("en-CA");
+}
+
+function bucketKey(rule: RateLimitRule, entityId: string): string {
+    const base = `${rule.entities}/${rule.maxCalls}/${rule.windowSeconds}`;
+    return rule.perEntity ? `${base}/${entityId}` : base;
+}
+
+function describeWindow(seconds: number): string {
+    if (seconds % 3600 === 0) return seconds === 3600 ? "hour" : `${seconds / 3600} hours`;
+    if (seconds % 60 === 0) return seconds === 60 ? "minute" : `${seconds / 60} minutes`;
+    return `${seconds}s`;
+}
+
+// ---- Limiter ----
+
+export class RateLimiter {
+    private state: Promise<RateLimitState> | null = null;
+    /** Writes run one after another so concurrent calls don't interleave them */
+    private saving: Promise<void> = Promise.resolve();
+    private readonly rules: RateLimitRule[];
+    private readonly dailyQuota: number | undefined;
+    private readonly stateDir: string | undefined;
+    private readonly instance: string;
+
+    /** Without `stateDir`, counters are kept in memory only. */
+    constructor(options: { rules?: RateLimitRule[]; dailyQuota?: number; stateDir?: string; instance: string }) {
+        this.rules = options.rules ?? [];
+        this.dailyQuota = options.dailyQuota;
+        this.stateDir = options.stateDir;
+        this.instance = options.instance;
+    }
+
+    get isEnabled(): boolean {
+        return this.rules.length > 0 || this.dailyQuota !== undefined;
+    }
+
+    private load(): Promise<RateLimitState> {
+        // Shared, so concurrent first calls count against the same state
+        this.state ??= this.stateDir
+            ? loadRateLimitState(this.stateDir, this.instance)
+            : Promise.resolve({ buckets: {}, day: "", dayCount: 0 });
+        return this.state;
+    }
+
+    private save(state: RateLimitState): Promise<void> {
+        if (!this.stateDir) return Promise.resolve();
+        const write = () => saveRateLimitState(this.stateDir!, this.instance, state);
+        this.saving = this.saving.then(write, write);
+        return this.saving;
+    }
+
+    /**
+     * Split entities into those within their limits and those refused, with
+     * the reason. The allowed ones are counted at `now` straight away, so
+     * concurrent calls can't all pass before one of them is recorded; call
+     * `release` with the same `now` if the service call doesn't go ahead.
+     */
+    async check(entityIds: string[], now = Date.now()): Promise<RateLimitCheck> {
+        if (!this.isEnabled) return { allowed: entityIds, refused: [] };
+        const state = await this.load();
+
+        const usedToday = state.day === localDay(now) ? state.dayCount : 0;
+        if (this.dailyQuota !== undefined && usedToday >= this.dailyQuota) {
+            const reason = `daily quota of ${this.dailyQuota} service calls reached (dailyQuota)`;
+            return { allowed: [], refused: entityIds.map((target) => ({ target, reason })) };
+        }
+
+        const allowed: string[] = [];
+        const refused: RateLimitCheck["refused"] = [];
+        for (const id of entityIds) {
+            const hit = this.rules.find((rule) => {
+                if (!matchesAnyPattern(id, [rule.entities])) return false;
+                const since = now - rule.windowSeconds * 1000;
+                const calls = (state.buckets[bucketKey(rule, id)] ?? []).filter((t) => t > since);
+                return calls.length >= rule.maxCalls;
+            });
+            if (!hit) {
+                allowed.push(id);
+                continue;
+            }
+            const since = now - hit.windowSeconds * 1000;
+            const oldest = Math.min(...(state.buckets[bucketKey(hit, id)] ?? []).filter((t) => t > since));
+            const retryIn = Math.max(1, Math.ceil((oldest + hit.windowSeconds * 1000 - now) / 1000));
+            refused.push({
+                target: id,
+                reason:
+                    `rate limit: at most ${hit.maxCalls} call${hit.maxCalls === 1 ? "" : "s"} per ${describeWindow(hit.windowSeconds)} ` +
+                    `to ${hit.entities}${hit.perEntity ? " (per entity)" : ""}, retry in ${retryIn}s (rateLimits)`,
+            });
+        }
+        if (allowed.length > 0) await this.count(state, allowed, now);
+        return { allowed, refused };
+    }
+
+    /** Count one service call on these entities against every matching limit and the daily quota. */
+    async record(entityIds: string[], now = Date.now()): Promise<void> {
+        if (!this.isEnabled) return;
+        await this.count(await this.load(), entityIds, now);
+    }
+
+    /** Give back the slot `check` counted at `reservedAt` for a call that wasn't executed. */
+    async release(entityIds: string[], reservedAt: number): Promise<void> {
+        if (!this.isEnabled || entityIds.length === 0) return;
+        const state = await this.load();
+
+        for (const key of this.bucketKeys(entityIds)) {
+            const times = state.buckets[key] ?? [];
+            const index = times.indexOf(reservedAt);
+            if (index >= 0) times.splice(index, 1);
+            if (times.length === 0) delete state.buckets[key];
+        }
+        if (state.day === localDay(reservedAt) && state.dayCount > 0) state.dayCount -= 1;
+
+        await this.save(state);
+    }
+
+    private bucketKeys(entityIds: string[]): Set<string> {
+        const keys = new Set<string>();
+        for (const id of entityIds) {
+            for (const rule of this.rules) {
+                if (matchesAnyPattern(id, [rule.entities])) keys.add(bucketKey(rule, id));
+            }
+        }
+        return keys;
+    }
+
+    /** Updates `state` synchronously, so a concurrent `check` already sees the call. */
+    private count(state: RateLimitState, entityIds: string[], now: number): Promise<void> {
+        for (const key of this.bucketKeys(entityIds)) (state.buckets[key] ??= []).push(now);
+
+        const today = localDay(now);
+        state.dayCount = state.day === today ? state.dayCount + 1 : 1;
+        state.day = today;
+
+        // Drop timestamps outside the longest window
+        const maxWindowMs = Math.max(0, ...this.rules.map((r) => r.windowSeconds * 1000));
+        for (const [key, times] of Object.entries(state.buckets)) {
+            const kept = times.filter((t) => t > now - maxWindowMs);
+            if (kept.length > 0) state.buckets[key] = kept;
+            else delete state.buckets[key];
+        }
+
+        return this.save(state);
+    }
+}
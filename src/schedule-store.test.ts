@@ -0,0 +1,102 @@
+/**
+ * Unit tests for the schedule store: CRUD, next-run computation and formatting.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "node:fs/promises";
+import path from "node:path";
+import os from "node:os";
+import {
+    addSchedule,
+    computeNextRun,
+    formatSchedule,
+    loadSchedules,
+    removeSchedule,
+    scheduleBelongsTo,
+    type Schedule,
+} from "./schedule-store.js";
+
+let tmpDir: string;
+
+beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "ha-schedule-test-"));
+});
+
+afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+});
+
+describe("addSchedule / removeSchedule", () => {
+    it("persists schedules next to listeners.json", async () => {
+        const s = await addSchedule(tmpDir, { cron: "0 8 * * *", message: "weather", oneShot: false });
+        expect(s.id).toHaveLength(8);
+        expect(await loadSchedules(tmpDir)).toEqual([s]);
+        await expect(
+            fs.access(path.join(tmpDir, "plugins", "homeassistant", "schedules.json")),
+        ).resolves.toBeUndefined();
+
+        expect(await removeSchedule(tmpDir, s.id)).toBe(true);
+        expect(await removeSchedule(tmpDir, s.id)).toBe(false);
+        expect(await loadSchedules(tmpDir)).toEqual([]);
+    });
+});
+
+describe("computeNextRun", () => {
+    const env = { timeZone: "Europe/Berlin" };
+    const now = Date.parse("2025-06-01T10:00:00Z");
+
+    it("returns one-off times only while in the future", () => {
+        expect(computeNextRun({ at: "2025-06-01T12:00:00.000Z" }, now, env)).toBe(Date.parse("2025-06-01T12:00:00Z"));
+        expect(computeNextRun({ at: "2025-06-01T09:00:00.000Z" }, now, env)).toBeNull();
+    });
+
+    it("uses the time zone for cron schedules", () => {
+        expect(computeNextRun({ cron: "0 20 * * *" }, now, env)).toBe(Date.parse("2025-06-01T18:00:00Z"));
+    });
+
+    it("offsets from sun.sun", () => {
+        const sun = {
+            entity_id: "sun.sun",
+            state: "above_horizon",
+            attributes: { next_setting: "2025-06-01T19:30:00+00:00", next_rising: "2025-06-02T03:00:00+00:00" },
+        };
+        expect(computeNextRun({ sunEvent: "sunset", offsetMinutes: 30 }, now, { ...env, sun })).toBe(
+            Date.parse("2025-06-01T20:00:00Z"),
+        );
+        expect(computeNextRun({ sunEvent: "sunrise", offsetMinutes: -15 }, now, { ...env, sun })).toBe(
+            Date.parse("2025-06-02T02:45:00Z"),
+        );
+        // Already past today: estimated a day later
+        const late = Date.parse("2025-06-01T19:20:00Z");
+        expect(computeNextRun({ sunEvent: "sunset", offsetMinutes: -30 }, late, { ...env, sun })).toBe(
+            Date.parse("2025-06-02T19:00:00Z"),
+        );
+        expect(computeNextRun({ sunEvent: "sunset" }, now, env)).toBeNull();
+    });
+});
+
+describe("scheduleBelongsTo / formatSchedule", () => {
+    const base: Schedule = {
+        id: "abc123",
+        sunEvent: "sunset",
+        offsetMinutes: 30,
+        message: "close the blinds",
+        oneShot: false,
+        nextRunAt: "2025-06-01T20:00:00.000Z",
+        createdAt: "",
+    };
+
+    it("assigns schedules without an instance to the default", () => {
+        expect(scheduleBelongsTo(base, "home", "home")).toBe(true);
+        expect(scheduleBelongsTo({ ...base, instance: "cabin" }, "home", "home")).toBe(false);
+    });
+
+    it("formats the trigger and next run in local time", () => {
+        expect(formatSchedule(base, "Europe/Berlin")).toBe(
+            '[abc123] 30 min after sunset (recurring, next 2025-06-01 22:00) → "close the blinds"',
+        );
+        expect(formatSchedule({ ...base, sunEvent: undefined, cron: "30 7 * * 1-5", nextRunAt: undefined })).toContain(
+            'cron "30 7 * * 1-5" (recurring, no upcoming run)',
+        );
+    });
+});
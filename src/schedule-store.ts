@@ -0,0 +1,193 @@
+/**
+ * Schedule Store — persistent time-based triggers.
+ *
+ * The time counterpart of listeners: cron expressions, one-off times and
+ * offsets from sunrise/sunset (`sun.sun`). Stored in
+ * `<stateDir>/plugins/homeassistant/schedules.json`, next to listeners.json.
+ * Each schedule keeps its next run time so the scheduler only compares
+ * timestamps.
+ */
+
+import fs from "node:fs/promises";
+import path from "node:path";
+import { randomUUID } from "node:crypto";
+import type { HAClient, HAEntity } from "./ha-client.js";
+import type { DeliveryTarget } from "./agent-dispatch.js";
+import { formatZonedTime, nextCronTime, parseCron } from "./cron.js";
+
+// ---- Types ----
+
+export type SunEvent = "sunrise" | "sunset";
+
+export type Schedule = {
+    id: string;
+    /** 5-field cron expression, evaluated in HA's time zone */
+    cron?: string;
+    /** ISO timestamp of a one-off run */
+    at?: string;
+    /** Run relative to sunrise or sunset, every day */
+    sunEvent?: SunEvent;
+    /** Minutes after (positive) or before (negative) the sun event */
+    offsetMinutes?: number;
+    /** Message to inject into the agent when the schedule runs */
+    message: string;
+    /** Remove after the first run (always true for `at` schedules) */
+    oneShot: boolean;
+    /** ISO timestamp of the next run; unset if it could not be computed */
+    nextRunAt?: string;
+    /** ISO timestamp of the last run */
+    lastRunAt?: string;
+    /** ISO timestamp of creation */
+    createdAt: string;
+    /** HA instance whose time zone and sun the schedule uses (unset = the default instance) */
+    instance?: string;
+    /** Where the triggered turn runs and replies; unset fields use the plugin's `delivery` defaults */
+    delivery?: DeliveryTarget;
+};
+
+export type ScheduleInput = Omit<Schedule, "id" | "createdAt" | "lastRunAt">;
+
+/** What a schedule's next run depends on. */
+export type ScheduleEnv = {
+    /** IANA time zone (HA's `time_zone`) */
+    timeZone: string;
+    /** Current `sun.sun` state, for sun schedules */
+    sun?: HAEntity | null;
+};
+
+// ---- Store path ----
+
+const SCHEDULES_FILE = "schedules.json";
+
+export function resolveSchedulesPath(stateDir: string): string {
+    return path.join(stateDir, "plugins", "homeassistant", SCHEDULES_FILE);
+}
+
+// ---- CRUD ----
+
+export async function loadSchedules(stateDir: string): Promise<Schedule[]> {
+    try {
+        const raw = await fs.readFile(resolveSchedulesPath(stateDir), "utf8");
+        const parsed = JSON.parse(raw);
+        return Array.isArray(parsed) ? (parsed as Schedule[]) : [];
+    } catch {
+        return [];
+    }
+}
+
+export async function saveSchedules(stateDir: string, schedules: Schedule[]): Promise<void> {
+    const filePath = resolveSchedulesPath(stateDir);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, JSON.stringify(schedules, null, 2) + "\n", "utf8");
+}
+
+export async function addSchedule(stateDir: string, input: ScheduleInput): Promise<Schedule> {
+    const schedules = await loadSchedules(stateDir);
+    const schedule: Schedule = {
+        ...input,
+        id: randomUUID().slice(0, 8),
+        createdAt: new Date().toISOString(),
+    };
+    schedules.push(schedule);
+    await saveSchedules(stateDir, schedules);
+    return schedule;
+}
+
+export async function removeSchedule(stateDir: string, id: string): Promise<boolean> {
+    const schedules = await loadSchedules(stateDir);
+    const idx = schedules.findIndex((s) => s.id === id);
+    if (idx < 0) return false;
+    schedules.splice(idx, 1);
+    await saveSchedules(stateDir, schedules);
+    return true;
+}
+
+// ---- Next run ----
+
+/** Whether a schedule is handled by the given instance's scheduler. */
+export function scheduleBelongsTo(schedule: Schedule, instance: string, defaultInstance: string): boolean {
+    return (schedule.instance ?? defaultInstance) === instance;
+}
+
+/**
+ * Schedule environment for an instance: HA's time zone (falling back to the
+ * gateway's own if HA is unreachable) and, when needed, `sun.sun`.
+ */
+export async function resolveScheduleEnv(client: HAClient, withSun: boolean): Promise<ScheduleEnv> {
+    let timeZone: string;
+    try {
+        timeZone = (await client.getHAConfig()).time_zone;
+    } catch {
+        timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    }
+    return { timeZone, sun: withSun ? await client.getState("sun.sun").catch(() => null) : undefined };
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Next sunrise/sunset plus offset after `after`, from `sun.sun`'s
+ * next_rising / next_setting. When that is already past (a negative offset
+ * close to the event), tomorrow's is estimated as 24 hours later; the
+ * scheduler refreshes sun schedules as `sun.sun` moves on, which corrects
+ * the estimate.
+ */
+function nextSunTime(
+    schedule: Pick<Schedule, "sunEvent" | "offsetMinutes">,
+    after: number,
+    sun: HAEntity | null | undefined,
+): number | null {
+    const attr = schedule.sunEvent === "sunrise" ? "next_rising" : "next_setting";
+    const raw = sun?.attributes?.[attr];
+    if (typeof raw !== "string") return null;
+    const event = new Date(raw).getTime();
+    if (Number.isNaN(event)) return null;
+    let t = event + (schedule.offsetMinutes ?? 0) * 60_000;
+    while (t <= after) t += DAY;
+    return t;
+}
+
+/**
+ * The schedule's first run strictly after `after`, or null if there is none
+ * (a past one-off time, a cron expression that never matches, or sun
+ * schedules without `sun.sun`).
+ */
+export function computeNextRun(
+    schedule: Pick<Schedule, "cron" | "at" | "sunEvent" | "offsetMinutes">,
+    after: number,
+    env: ScheduleEnv,
+): number | null {
+    if (schedule.at) {
+        const t = new Date(schedule.at).getTime();
+        return t > after ? t : null;
+    }
+    if (schedule.cron) return nextCronTime(parseCron(schedule.cron), after, env.timeZone);
+    if (schedule.sunEvent) return nextSunTime(schedule, after, env.sun);
+    return null;
+}
+
+// ---- Formatting ----
+
+/** Describe when a schedule runs, e.g. `cron "30 7 * * 1-5"` or "30 min after sunset". */
+export function describeScheduleTrigger(
+    s: Pick<Schedule, "cron" | "at" | "sunEvent" | "offsetMinutes">,
+    timeZone?: string,
+): string {
+    if (s.at) return `at ${timeZone ? formatZonedTime(new Date(s.at).getTime(), timeZone) : s.at}`;
+    if (s.cron) return `cron "${s.cron}"`;
+    if (s.sunEvent) {
+        const offset = s.offsetMinutes ?? 0;
+        if (offset === 0) return `at ${s.sunEvent}`;
+        return `${Math.abs(offset)} min ${offset > 0 ? "after" : "before"} ${s.sunEvent}`;
+    }
+    return "never";
+}
+
+export function formatSchedule(s: Schedule, timeZone?: string): string {
+    const mode = s.at || s.oneShot ? "one-shot" : "recurring";
+    const where = s.instance ? ` @${s.instance}` : "";
+    const next = s.nextRunAt
+        ? `, next ${timeZone ? formatZonedTime(new Date(s.nextRunAt).getTime(), timeZone) : s.nextRunAt}`
+        : ", no upcoming run";
+    return `[${s.id}] ${describeScheduleTrigger(s, timeZone)}${where} (${mode}${next}) → "${s.message}"`;
+}
@@ -0,0 +1,97 @@
+/**
+ * Unit tests for service schema validation and suggestions.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+    flattenServiceFields,
+    suggestClosest,
+    validateServiceCall,
+    formatServiceDomain,
+    type HAServiceDomain,
+} from "./service-schema.js";
+
+const services: HAServiceDomain[] = [
+    {
+        domain: "light",
+        services: {
+            turn_on: {
+                description: "Turn on one or more lights.",
+                fields: {
+                    transition: { description: "Duration in seconds.", example: 60 },
+                    brightness_pct: { description: "Brightness percentage.", example: 47 },
+                    advanced_fields: {
+                        fields: {
+                            rgb_color: { description: "RGB color." },
+                        },
+                    },
+                },
+            },
+            turn_off: { fields: { transition: {} } },
+        },
+    },
+    {
+        domain: "climate",
+        services: {
+            set_temperature: {
+                fields: { temperature: {}, hvac_mode: {} },
+            },
+            set_hvac_mode: {
+                fields: { hvac_mode: { required: true } },
+            },
+        },
+    },
+];
+
+describe("flattenServiceFields", () => {
+    it("flattens sectioned fields", () => {
+        const fields = flattenServiceFields(services[0]!.services.turn_on!.fields);
+        expect([...fields.keys()]).toEqual(["transition", "brightness_pct", "rgb_color"]);
+    });
+});
+
+describe("suggestClosest", () => {
+    it("suggests close matches and ignores unrelated ones", () => {
+        expect(suggestClosest("brightnes", ["transition", "brightness_pct"])).toBe("brightness_pct");
+        expect(suggestClosest("turn_onn", ["turn_on", "turn_off"])).toBe("turn_on");
+        expect(suggestClosest("xyzzy", ["turn_on", "turn_off"])).toBeNull();
+    });
+});
+
+describe("validateServiceCall", () => {
+    it("accepts a valid call with target keys", () => {
+        expect(
+            validateServiceCall(services, "light", "turn_on", { entity_id: "light.a", brightness_pct: 50 }),
+        ).toBeNull();
+    });
+
+    it("reports unknown services with a suggestion", () => {
+        const error = validateServiceCall(services, "light", "switch_on", {});
+        expect(error).toContain('Unknown service "light.switch_on"');
+        expect(error).toContain("Available: turn_on, turn_off");
+    });
+
+    it("reports unknown domains", () => {
+        expect(validateServiceCall(services, "lihgt", "turn_on", {})).toContain('Did you mean "light"');
+    });
+
+    it("reports unknown fields with a suggestion and the valid list", () => {
+        const error = validateServiceCall(services, "light", "turn_on", { brightness: 50 });
+        expect(error).toContain('unknown field "brightness" (did you mean "brightness_pct"?)');
+        expect(error).toContain("Valid fields: transition, brightness_pct, rgb_color");
+    });
+
+    it("reports missing required fields", () => {
+        expect(validateServiceCall(services, "climate", "set_hvac_mode", {})).toContain(
+            'missing required field "hvac_mode"',
+        );
+    });
+});
+
+describe("formatServiceDomain", () => {
+    it("lists services with fields and examples", () => {
+        const result = formatServiceDomain(services[0]!);
+        expect(result).toContain("`light.turn_on` — Turn on one or more lights.");
+        expect(result).toContain("brightness_pct (optional): Brightness percentage. e.g. 47");
+    });
+});
@@ -0,0 +1,172 @@
+/**
+ * Service schema — validation of service calls against HA's /api/services.
+ *
+ * HA answers an unknown service or field with an opaque 400. Checking the
+ * call against the published field schema first lets us return an error
+ * that names the correct service or field instead.
+ */
+
+// ---- Types ----
+
+export type HAServiceField = {
+    name?: string;
+    description?: string;
+    required?: boolean;
+    example?: unknown;
+    selector?: Record<string, unknown>;
+    advanced?: boolean;
+};
+
+/** A field entry is either a field or a collapsible section of fields. */
+type HAServiceFieldEntry = HAServiceField & { fields?: Record<string, HAServiceField> };
+
+export type HAServiceDefinition = {
+    name?: string;
+    description?: string;
+    fields: Record<string, HAServiceFieldEntry>;
+    target?: Record<string, unknown>;
+};
+
+/** One element of the /api/services response. */
+export type HAServiceDomain = {
+    domain: string;
+    services: Record<string, HAServiceDefinition>;
+};
+
+/** Keys that address targets rather than service fields. */
+const TARGET_KEYS = new Set(["entity_id", "area_id", "device_id", "floor_id", "label_id"]);
+
+// ---- Helpers ----
+
+/** Flatten sectioned fields (e.g. `advanced_fields`) into one key → field map. */
+export function flattenServiceFields(
+    fields: Record<string, HAServiceFieldEntry>,
+): Map<string, HAServiceField> {
+    const result = new Map<string, HAServiceField>();
+    for (const [key, entry] of Object.entries(fields)) {
+        if (entry.fields && typeof entry.fields === "object") {
+            for (const [nestedKey, nested] of Object.entries(entry.fields)) {
+                result.set(nestedKey, nested);
+            }
+        } else {
+            result.set(key, entry);
+        }
+    }
+    return result;
+}
+
+function editDistance(a: string, b: string): number {
+    const prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        let diag = prev[0]!;
+        prev[0] = i;
+        for (let j = 1; j <= b.length; j++) {
+            const tmp = prev[j]!;
+            prev[j] = Math.min(
+                prev[j]! + 1,
+                prev[j - 1]! + 1,
+                diag + (a[i - 1] === b[j - 1] ? 0 : 1),
+            );
+            diag = tmp;
+        }
+    }
+    return prev[b.length]!;
+}
+
+/** Return the closest candidate, if it is plausibly a typo of `value`. */
+export function suggestClosest(value: string, candidates: Iterable<string>): string | null {
+    let best: string | null = null;
+    let bestScore = Infinity;
+    for (const c of candidates) {
+        const score =
+            c.includes(value) || value.includes(c) ? 1 : editDistance(value.toLowerCase(), c.toLowerCase());
+        if (score < bestScore) {
+            best = c;
+            bestScore = score;
+        }
+    }
+    if (best === null) return null;
+    return bestScore <= Math.max(2, Math.floor(value.length / 3)) ? best : null;
+}
+
+// ---- Validation ----
+
+/**
+ * Check a service call against the published schema.
+ * Returns a human-readable error, or null if the call looks valid.
+ * Unknown domains are reported; missing schema data is not an error.
+ */
+export function validateServiceCall(
+    services: HAServiceDomain[],
+    domain: string,
+    service: string,
+    data: Record<string, unknown> | undefined,
+): string | null {
+    const domainEntry = services.find((d) => d.domain === domain);
+    if (!domainEntry) {
+        const suggestion = suggestClosest(domain, services.map((d) => d.domain));
+        return (
+            `Unknown service domain "${domain}".` +
+            (suggestion ? ` Did you mean "${suggestion}"?` : "")
+        );
+    }
+
+    const definition = domainEntry.services[service];
+    if (!definition) {
+        const names = Object.keys(domainEntry.services);
+        const suggestion = suggestClosest(service, names);
+        return (
+            `Unknown service "${domain}.${service}".` +
+            (suggestion ? ` Did you mean "${domain}.${suggestion}"?` : "") +
+            ` Available: ${names.join(", ")}.`
+        );
+    }
+
+    const fields = flattenServiceFields(definition.fields ?? {});
+    const problems: string[] = [];
+
+    for (const key of Object.keys(data ?? {})) {
+        if (TARGET_KEYS.has(key) || fields.has(key)) continue;
+        const suggestion = suggestClosest(key, fields.keys());
+        problems.push(
+            `unknown field "${key}"` + (suggestion ? ` (did you mean "${suggestion}"?)` : ""),
+        );
+    }
+
+    for (const [key, field] of fields) {
+        if (field.required && data?.[key] === undefined) {
+            problems.push(`missing required field "${key}"`);
+        }
+    }
+
+    if (problems.length === 0) return null;
+
+    const valid = [...fields.keys()];
+    return (
+        `Invalid data for ${domain}.${service}: ${problems.join("; ")}. ` +
+        `Valid fields: ${valid.length > 0 ? valid.join(", ") : "(none)"}.`
+    );
+}
+
+// ---- Formatting ----
+
+function formatExample(example: unknown): string {
+    if (example === undefined || example === null || example === "") return "";
+    const text = typeof example === "string" ? example : JSON.stringify(example);
+    return ` e.g. ${text}`;
+}
+
+/** Format one domain's services and their fields for the agent. */
+export function formatServiceDomain(entry: HAServiceDomain): string {
+    const lines: string[] = [`### ${entry.domain}`];
+    for (const [name, def] of Object.entries(entry.services)) {
+        const summary = def.description ? ` — ${def.description}` : "";
+        lines.push(`- \`${entry.domain}.${name}\`${summary}`);
+        for (const [key, field] of flattenServiceFields(def.fields ?? {})) {
+            const req = field.required ? "required" : "optional";
+            const desc = field.description ? `: ${field.description}` : "";
+            lines.push(`  - ${key} (${req})${desc}${formatExample(field.example)}`);
+        }
+    }
+    return lines.join("\n");
+}
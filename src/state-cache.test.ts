@@ -0,0 +1,60 @@
+/**
+ * Unit tests for the live state cache and HAClient's use of it.
+ */
+
+import { describe, it, expect } from "vitest";
+import { HAStateCache } from "./state-cache.js";
+import { HAClient, type HAEntity } from "./ha-client.js";
+
+function entity(entity_id: string, state: string): HAEntity {
+    return { entity_id, state, attributes: {}, last_changed: "", last_updated: "" };
+}
+
+describe("HAStateCache", () => {
+    it("is not live until seeded", () => {
+        const cache = new HAStateCache();
+        expect(cache.isLive).toBe(false);
+        cache.seed([entity("light.a", "on")]);
+        expect(cache.isLive).toBe(true);
+        expect(cache.get("light.a")?.state).toBe("on");
+    });
+
+    it("applies state changes and removals", () => {
+        const cache = new HAStateCache();
+        cache.seed([entity("light.a", "on"), entity("light.b", "off")]);
+        cache.apply("light.a", entity("light.a", "off"));
+        cache.apply("light.b", null);
+        cache.apply("light.c", entity("light.c", "on"));
+        expect(cache.all().map((e) => `${e.entity_id}=${e.state}`)).toEqual(["light.a=off", "light.c=on"]);
+    });
+
+    it("stops serving reads when marked stale", () => {
+        const cache = new HAStateCache();
+        cache.seed([]);
+        cache.markStale();
+        expect(cache.isLive).toBe(false);
+    });
+});
+
+describe("HAClient with a live state cache", () => {
+    const cache = new HAStateCache();
+    cache.seed([entity("light.room", "on"), entity("lock.front", "locked"), entity("sensor.temp", "21")]);
+    // The URL is unreachable, so any REST fallback would throw
+    const client = new HAClient({
+        url: "http://127.0.0.1:9",
+        token: "fake",
+        blockedEntities: ["lock.*"],
+        writableDomains: [],
+        stateCache: cache,
+    });
+
+    it("serves getStates from the cache with ACL applied", async () => {
+        const states = await client.getStates(["light.*", "lock.*"]);
+        expect(states.map((e) => e.entity_id)).toEqual(["light.room"]);
+    });
+
+    it("serves getState from the cache", async () => {
+        expect((await client.getState("sensor.temp"))?.state).toBe("21");
+        expect(await client.getState("lock.front")).toBeNull();
+    });
+});
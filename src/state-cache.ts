@@ -0,0 +1,45 @@
+/**
+ * State Cache — in-memory mirror of Home Assistant entity states.
+ *
+ * Seeded by the listener service's `get_states` call right after it
+ * subscribes to `state_changed`, then kept current from that event stream.
+ * HAClient reads from it while it is live and falls back to REST otherwise,
+ * so context injection, tools and /ha don't each download /api/states.
+ */
+
+import type { HAEntity } from "./ha-client.js";
+
+export class HAStateCache {
+    private states = new Map<string, HAEntity>();
+    private live = false;
+
+    /** True while the cache is seeded and the WebSocket feeding it is connected. */
+    get isLive(): boolean {
+        return this.live;
+    }
+
+    /** Replace the cache contents with a full snapshot and mark it live. */
+    seed(entities: HAEntity[]): void {
+        this.states = new Map(entities.map((e) => [e.entity_id, e]));
+        this.live = true;
+    }
+
+    /** Apply one `state_changed` event. A null state means the entity was removed. */
+    apply(entityId: string, newState: HAEntity | null | undefined): void {
+        if (newState) this.states.set(entityId, newState);
+        else this.states.delete(entityId);
+    }
+
+    /** Stop serving reads (e.g. the socket dropped and events may be missed). */
+    markStale(): void {
+        this.live = false;
+    }
+
+    get(entityId: string): HAEntity | undefined {
+        return this.states.get(entityId);
+    }
+
+    all(): HAEntity[] {
+        return [...this.states.values()];
+    }
+}
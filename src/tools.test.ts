@@ -0,0 +1,112 @@
+/**
+ * Unit tests for tool parameter handling (against a seeded state cache, no HA).
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "node:fs/promises";
+import path from "node:path";
+import os from "node:os";
+import {
+    createHaContextConfigToolDef,
+    createHaHistoryToolDef,
+    createHaListenToolDef,
+    createHaStatisticsToolDef,
+} from "./tools.js";
+import { HAInstanceRegistry, createInstance } from "./instances.js";
+import { loadListeners } from "./listener-store.js";
+import { readContextConfig } from "./context-hook.js";
+
+let tmpDir: string;
+let registry: HAInstanceRegistry;
+
+beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "ha-tools-test-"));
+    const instance = createInstance("default", { url: "http://ha.local:8123", token: "t" }, tmpDir);
+    instance.stateCache.seed([
+        { entity_id: "binary_sensor.door", state: "off", attributes: {}, last_changed: "", last_updated: "" },
+    ]);
+    registry = new HAInstanceRegistry([instance]);
+});
+
+afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+});
+
+describe("ha_listen add", () => {
+    const add = (params: Record<string, unknown>) =>
+        createHaListenToolDef(tmpDir, registry).execute({
+            action: "add",
+            entity_id: "binary_sensor.door",
+            to_state: "on",
+            message: "tell me",
+            ...params,
+        });
+
+    it("defaults to one-shot without limits", async () => {
+        await add({});
+        expect((await loadListeners(tmpDir))[0]).toMatchObject({ oneShot: true });
+    });
+
+    it("defaults to recurring when max_fires, cooldown or expiry is set", async () => {
+        await add({ max_fires: 3 });
+        await add({ cooldown_seconds: 60 });
+        await add({ expires_at: new Date(Date.now() + 3_600_000).toISOString() });
+        expect((await loadListeners(tmpDir)).map((l) => l.oneShot)).toEqual([false, false, false]);
+    });
+
+    it("rejects one_shot=true with max_fires above 1", async () => {
+        expect(await add({ one_shot: true, max_fires: 3 })).toContain("contradicts max_fires=3");
+        expect(await loadListeners(tmpDir)).toEqual([]);
+    });
+});
+
+describe("time parameters", () => {
+    it("rejects malformed start_time/end_time before calling HA", async () => {
+        const history = await createHaHistoryToolDef(registry).execute({
+            entity_id: "binary_sensor.door",
+            start_time: "yesterday",
+        });
+        expect(history).toBe('Invalid start_time "yesterday" — use ISO 8601 (e.g. 2025-01-31T07:30:00+01:00).');
+        const statistics = await createHaStatisticsToolDef(registry).execute({
+            action: "get",
+            statistic_ids: ["sensor.energy"],
+            end_time: "2025-13-45",
+        });
+        expect(statistics).toContain('Invalid end_time "2025-13-45"');
+    });
+});
+
+describe("ha_context_config", () => {
+    it("keeps each instance's watched entities separate", async () => {
+        const cabin = createInstance(
+            "cabin",
+            { url: "http://cabin.local:8123", token: "t", acl: { watchedEntities: ["sensor.cabin_*"] } },
+            tmpDir,
+        );
+        const tool = createHaContextConfigToolDef(tmpDir, new HAInstanceRegistry([...registry.all, cabin]));
+
+        await tool.execute({ action: "add_watch", watched_entities: ["binary_sensor.door"] });
+        await tool.execute({ action: "set", instance: "cabin", max_entities: 10 });
+
+        expect((await readContextConfig(tmpDir, "default"))?.watchedEntities).toEqual(["binary_sensor.door"]);
+        expect(await readContextConfig(tmpDir, "cabin")).toMatchObject({
+            watchedEntities: ["sensor.cabin_*"],
+            maxEntities: 10,
+        });
+        expect(JSON.parse(await tool.execute({ action: "get" }))).toMatchObject({ maxEntities: 50 });
+        expect(await tool.execute({ action: "get", instance: "garage" })).toContain(
+            'Unknown Home Assistant instance "garage"',
+        );
+    });
+
+    it("applies a pre-instance override file to every instance until one is set", async () => {
+        const file = path.join(tmpDir, "plugins", "homeassistant", "context-config.json");
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        await fs.writeFile(file, JSON.stringify({ watchedEntities: ["light.*"] }));
+        const tool = createHaContextConfigToolDef(tmpDir, registry);
+
+        await tool.execute({ action: "remove_watch", instance: "default", watched_entities: ["light.*"] });
+        expect((await readContextConfig(tmpDir, "default"))?.watchedEntities).toEqual([]);
+        expect((await readContextConfig(tmpDir, "cabin"))?.watchedEntities).toEqual(["light.*"]);
+    });
+});
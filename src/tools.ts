@@ -3,30 +3,143 @@
  *
  * Provides agent tools for querying/controlling HA entities:
  * - ha_states: read entity states
- * - ha_call_service: call HA services (ACL-enforced)
+ * - ha_services: list callable services and their fields
+ * - ha_call_service: call HA services (ACL-enforced, schema-checked)
+ * - ha_audit: query the audit log of service calls
  * - ha_logbook: read historical logbook entries
+ * - ha_history: per-entity statistics over a time range
+ * - ha_statistics: long-term (recorder) statistics for energy/climate questions
  * - ha_context_config: agent can adjust context injection settings
+ * - ha_acl_explain: explain why an entity is hidden, readable, watched or writable
  * - ha_listen: manage event listeners for entity state changes
+ * - ha_schedule: manage cron, one-off and sun-relative triggers
  */
 
 import type { HAClient } from "./ha-client.js";
 import {
     formatEntitiesSummary,
     formatLogbookEntries,
+    formatDuration,
     formatEntityState,
+    formatHistorySummaries,
+    summarizeHistory,
+    formatStatistics,
+    formatStatisticMetadata,
+    matchesAnyPattern,
+    statisticsUnitsFromUnitSystem,
+    type HAHistorySummary,
+    type HAServiceTarget,
+    type HAStatisticsPeriod,
 } from "./ha-client.js";
+import { formatServiceDomain } from "./service-schema.js";
+import type { HAInstanceRegistry } from "./instances.js";
 import type { ContextConfig } from "./context-hook.js";
-import { readContextConfig, writeContextConfig, mergeContextConfig } from "./context-hook.js";
-import { addListener, removeListener, loadListeners, formatListener } from "./listener-store.js";
+import {
+    instanceContextOptions,
+    readContextConfig,
+    writeContextConfig,
+    mergeContextConfig,
+    resolveWatchedEntities,
+} from "./context-hook.js";
+import { formatAccessExplanation } from "./acl.js";
+import {
+    addListener,
+    removeListener,
+    loadListeners,
+    removeExpiredListeners,
+    formatListener,
+    describeListenerBudget,
+    describeThreshold,
+    readAttribute,
+} from "./listener-store.js";
+import {
+    addSchedule,
+    computeNextRun,
+    describeScheduleTrigger,
+    formatSchedule,
+    loadSchedules,
+    removeSchedule,
+    resolveScheduleEnv,
+    type SunEvent,
+} from "./schedule-store.js";
+import { formatZonedTime, parseCron, parseZonedTime } from "./cron.js";
+import { validateTemplate } from "./listener-template.js";
+import { formatListenerFire, queryListenerHistory } from "./listener-history.js";
+import { addPendingAction } from "./pending-actions.js";
+import { describeDelivery, resolveDelivery, type DeliveryTarget } from "./agent-dispatch.js";
+import { formatAuditRecord, queryAuditLog } from "./audit-log.js";
 
 type ToolSchema = {
     name: string;
     description: string;
     inputSchema: Record<string, unknown>;
-    execute: (params: Record<string, unknown>) => Promise<string>;
+    execute: (params: Record<string, unknown>, context?: ToolCallContext) => Promise<string>;
+};
+
+type ToolCallContext = {
+    /** ID of the agent tool call, recorded in the audit log */
+    toolCallId?: string;
+    /** Agent and session making the call; the default delivery target for triggers it creates */
+    origin?: DeliveryTarget;
 };
 
-export function createHaStatesToolDef(client: HAClient): ToolSchema {
+const INSTANCE_PARAM = {
+    type: "string",
+    description: "Home Assistant instance name (omit for the default instance)",
+};
+
+/** Resolve the `instance` tool parameter to a client, or an error message. */
+function resolveClient(instances: HAInstanceRegistry, params: Record<string, unknown>): HAClient | string {
+    const name = params.instance as string | undefined;
+    const instance = instances.resolve(name);
+    return instance ? instance.client : instances.unknownMessage(name ?? "");
+}
+
+const STRING_OR_LIST = {
+    anyOf: [{ type: "string" }, { type: "array", items: { type: "string" } }],
+};
+
+const DELIVERY_PARAM = {
+    type: "object",
+    description:
+        "Where the triggered agent turn runs and replies. Defaults to the current agent and session; " +
+        "only set this when the user asks for a different agent, session or channel. Optional.",
+    properties: {
+        agent_id: { type: "string", description: "Agent ID" },
+        session_key: { type: "string", description: "Session key" },
+        channel: { type: "string", description: "Delivery channel (e.g. 'telegram', 'discord')" },
+        deliver: { type: "boolean", description: "Send the reply to the channel (default true)" },
+    },
+};
+
+/**
+ * Delivery target for a new listener or schedule: the calling agent and
+ * session, overridden by the `delivery` parameter. Unset fields fall back
+ * to the plugin's `delivery` defaults when the trigger fires.
+ */
+function deliveryFromParams(raw: unknown, origin: DeliveryTarget | undefined): DeliveryTarget | undefined {
+    const p = (raw ?? {}) as Record<string, unknown>;
+    const delivery = resolveDelivery(origin, {
+        agentId: p.agent_id as string | undefined,
+        sessionKey: p.session_key as string | undefined,
+        channel: p.channel as string | undefined,
+        deliver: p.deliver as boolean | undefined,
+    });
+    return Object.keys(delivery).length > 0 ? delivery : undefined;
+}
+
+/** Error message for a `start_time`/`end_time` parameter that isn't a valid date, or null. */
+function invalidTimeParam(params: Record<string, unknown>): string | null {
+    for (const key of ["start_time", "end_time"]) {
+        const value = params[key] as string | undefined;
+        if (value !== undefined && Number.isNaN(new Date(value).getTime())) {
+            return `Invalid ${key} "${value}" — use ISO 8601 (e.g. 2025-01-31T07:30:00+01:00).`;
+        }
+    }
+    return null;
+}
+
+export function createHaStatesToolDef(instances: HAInstanceRegistry): ToolSchema {
     return {
         name: "ha_states",
         description:
@@ -37,12 +150,16 @@ export function createHaStatesToolDef(client: HAClient): ToolSchema {
         inputSchema: {
             type: "object",
             properties: {
+                instance: INSTANCE_PARAM,
                 domain: { type: "string", description: "Filter by domain (e.g. light, sensor, climate)" },
                 entity_id: { type: "string", description: "Specific entity ID" },
                 pattern: { type: "string", description: "Glob pattern (e.g. sensor.living_room_*)" },
             },
         },
         execute: async (params) => {
+            const client = resolveClient(instances, params);
+            if (typeof client === "string") return client;
+
             if (!client.isConfigured) {
                 return "Home Assistant is not configured. The user needs to set plugins.entries.homeassistant-for-openclaw.config.url and .token.";
             }
@@ -64,49 +181,181 @@ export function createHaStatesToolDef(client: HAClient): ToolSchema {
             const entities = await client.getStates(patterns);
             if (entities.length === 0) return "No entities found matching the filter.";
 
-            return formatEntitiesSummary(entities, { groupByArea: true, maxEntities: 100 });
+            const areas = await client.getEntityAreas();
+            return formatEntitiesSummary(entities, { groupByArea: true, maxEntities: 100, areas });
         },
     };
 }
 
-export function createHaCallServiceToolDef(client: HAClient): ToolSchema {
+export function createHaServicesToolDef(instances: HAInstanceRegistry): ToolSchema {
+    return {
+        name: "ha_services",
+        description:
+            "List the Home Assistant services you are allowed to call, with their data fields. " +
+            "Only services the ACL permits are listed. Check this before ha_call_service " +
+            "when unsure of a service name or its data keys.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                instance: INSTANCE_PARAM,
+                domain: {
+                    type: "string",
+                    description: "Only list services of this domain (e.g. light, climate)",
+                },
+            },
+        },
+        execute: async (params) => {
+            const client = resolveClient(instances, params);
+            if (typeof client === "string") return client;
+
+            if (!client.isConfigured) {
+                return "Home Assistant is not configured. The user needs to set plugins.homeassistant.url and plugins.homeassistant.token.";
+            }
+
+            const domain = params.domain as string | undefined;
+            const callable = client.callableDomainList;
+            if (domain && !callable.includes(domain)) {
+                return `Domain "${domain}" is not in writableDomains or any allow rule, so its services can't be called.`;
+            }
+            const domains = domain ? [domain] : callable;
+            if (domains.length === 0) {
+                return "No writable domains are configured (read-only mode).";
+            }
+
+            const services = await client.getServices();
+            const sections = domains.map((d) => {
+                const entry = services.find((s) => s.domain === d);
+                if (!entry) return `### ${d}\n_No services registered._`;
+                // Hide services the ACL rules out entirely (e.g. a deny rule on lock.unlock)
+                const allowed = Object.fromEntries(
+                    Object.entries(entry.services).filter(([name]) => client.canCallService(d, name)),
+                );
+                return formatServiceDomain({ domain: d, services: allowed });
+            });
+            return sections.join("\n\n");
+        },
+    };
+}
+
+export function createHaCallServiceToolDef(instances: HAInstanceRegistry, stateDir: string): ToolSchema {
     return {
         name: "ha_call_service",
         description:
             "Call a Home Assistant service to control a device. " +
-            "Requires: domain (e.g. 'light'), service (e.g. 'turn_on'), and entity_id. " +
-            "Only works for domains in the writableDomains ACL. " +
+            "Requires: domain (e.g. 'light'), service (e.g. 'turn_on'), and at least one target: " +
+            "entity_id (one or a list), area_id (area ID or name, e.g. 'Kitchen') or device_id. " +
+            "Areas and devices expand to their entities of the service's domain. " +
+            "Only works for domains in the writableDomains ACL; the result lists which targets ran and which were refused. " +
+            "Service names and data keys are checked against HA's service schema (see ha_services). " +
+            "Calls covered by the requireConfirmation policy are not executed: they return a pending action ID " +
+            "that the user must approve with /ha approve <id>. " +
+            "Set dry_run to see the predicted effect without touching devices (dry-run may also be enabled globally). " +
             "IMPORTANT: Always confirm with the user before performing destructive or security-sensitive actions.",
         inputSchema: {
             type: "object",
-            required: ["domain", "service", "entity_id"],
+            required: ["domain", "service"],
             properties: {
+                instance: INSTANCE_PARAM,
                 domain: { type: "string", description: "Service domain (e.g. light, switch, climate)" },
                 service: { type: "string", description: "Service name (e.g. turn_on, turn_off, toggle)" },
-                entity_id: { type: "string", description: "Target entity ID" },
+                entity_id: { ...STRING_OR_LIST, description: "Target entity ID or list of entity IDs" },
+                area_id: { ...STRING_OR_LIST, description: "Target area ID(s) or name(s)" },
+                device_id: { ...STRING_OR_LIST, description: "Target device ID(s)" },
                 data: {
                     type: "object",
                     description: "Additional service data (e.g. brightness, temperature)",
                 },
+                dry_run: {
+                    type: "boolean",
+                    description: "Check and resolve the call and predict its effect without executing it",
+                },
             },
         },
-        execute: async (params) => {
+        execute: async (params, context) => {
+            const client = resolveClient(instances, params);
+            if (typeof client === "string") return client;
+
             if (!client.isConfigured) {
                 return "Home Assistant is not configured. The user needs to set plugins.homeassistant.url and plugins.homeassistant.token.";
             }
 
             const domain = params.domain as string;
             const service = params.service as string;
-            const entityId = params.entity_id as string;
+            const target: HAServiceTarget = {
+                entity_id: params.entity_id as string | string[] | undefined,
+                area_id: params.area_id as string | string[] | undefined,
+                device_id: params.device_id as string | string[] | undefined,
+            };
+            if (!target.entity_id && !target.area_id && !target.device_id) {
+                return "At least one of entity_id, area_id or device_id is required.";
+            }
             const data = params.data as Record<string, unknown> | undefined;
 
-            const result = await client.callService(domain, service, entityId, data);
-            return result.message;
+            const toolCallId = context?.toolCallId;
+            const result = await client.callService(domain, service, target, data, {
+                toolCallId,
+                dryRun: params.dry_run === true,
+            });
+            if (!result.pendingConfirmation) return result.message;
+
+            const pending = result.pendingConfirmation;
+            const action = await addPendingAction(
+                stateDir,
+                {
+                    instance: instances.resolve(params.instance as string | undefined)?.name ?? instances.defaultName,
+                    domain,
+                    service,
+                    entityIds: pending.entityIds,
+                    data: Object.keys(pending.data).length > 0 ? pending.data : undefined,
+                    reason: pending.reason,
+                    toolCallId,
+                },
+                pending.expiresMinutes,
+            );
+            return (
+                `${result.message} Nothing was executed. Pending action ID: ${action.id} ` +
+                `(expires in ${pending.expiresMinutes} min). ` +
+                `Ask the user to approve with "/ha approve ${action.id}" or reject with "/ha deny ${action.id}".`
+            );
         },
     };
 }
 
-export function createHaLogbookToolDef(client: HAClient): ToolSchema {
+export function createHaAuditToolDef(stateDir: string, instances: HAInstanceRegistry): ToolSchema {
+    return {
+        name: "ha_audit",
+        description:
+            "Query the audit log of service calls made through ha_call_service, including refused, " +
+            "invalid, pending and failed attempts. Filter by time range and entity (glob). " +
+            "Each record shows the target, data, ACL decision, outcome and the tool call ID.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                instance: { type: "string", description: "Only calls on this instance (omit for all)" },
+                start_time: { type: "string", description: "Start time in ISO 8601 format" },
+                end_time: { type: "string", description: "End time in ISO 8601 format" },
+                entity_id: { type: "string", description: "Entity ID or glob pattern (e.g. lock.*)" },
+                limit: { type: "number", description: "Most recent N records (default 20)" },
+            },
+        },
+        execute: async (params) => {
+            const instance = params.instance as string | undefined;
+            if (instance && !instances.resolve(instance)) return instances.unknownMessage(instance);
+
+            const records = await queryAuditLog(stateDir, {
+                since: params.start_time as string | undefined,
+                until: params.end_time as string | undefined,
+                entityId: params.entity_id as string | undefined,
+                instance,
+                limit: (params.limit as number) ?? 20,
+            });
+            if (records.length === 0) return "No matching service calls in the audit log.";
+            return `Service call audit (${records.length}, oldest first):\n${records.map(formatAuditRecord).join("\n")}`;
+        },
+    };
+}
+
+export function createHaLogbookToolDef(instances: HAInstanceRegistry): ToolSchema {
     return {
         name: "ha_logbook",
         description:
@@ -117,6 +366,7 @@ export function createHaLogbookToolDef(client: HAClient): ToolSchema {
             type: "object",
             required: ["start_time"],
             properties: {
+                instance: INSTANCE_PARAM,
                 start_time: {
                     type: "string",
                     description: "Start time in ISO 8601 format (e.g. 2025-02-15T08:00:00+08:00)",
@@ -132,6 +382,9 @@ export function createHaLogbookToolDef(client: HAClient): ToolSchema {
             },
         },
         execute: async (params) => {
+            const client = resolveClient(instances, params);
+            if (typeof client === "string") return client;
+
             if (!client.isConfigured) {
                 return "Home Assistant is not configured. The user needs to set plugins.homeassistant.url and plugins.homeassistant.token.";
             }
@@ -146,17 +399,177 @@ export function createHaLogbookToolDef(client: HAClient): ToolSchema {
     };
 }
 
-export function createHaContextConfigToolDef(
-    stateDir: string,
-    pluginContextConfig: Record<string, unknown> | undefined,
-): ToolSchema {
+export function createHaHistoryToolDef(instances: HAInstanceRegistry): ToolSchema {
+    return {
+        name: "ha_history",
+        description:
+            "Summarize Home Assistant state history over a time range. " +
+            "For numeric sensors returns min/max/mean and a downsampled trend; " +
+            "for other entities returns time spent in each state and the number of changes. " +
+            "Use this instead of ha_logbook for questions like 'how warm was the bedroom last week'.",
+        inputSchema: {
+            type: "object",
+            required: ["entity_id"],
+            properties: {
+                instance: INSTANCE_PARAM,
+                entity_id: { ...STRING_OR_LIST, description: "Entity ID or list of entity IDs" },
+                start_time: {
+                    type: "string",
+                    description: "Start time in ISO 8601 format (default: 24 hours ago)",
+                },
+                end_time: {
+                    type: "string",
+                    description: "End time in ISO 8601 format (default: now)",
+                },
+                max_points: {
+                    type: "integer",
+                    description: "Maximum trend points per numeric entity (default 24)",
+                },
+            },
+        },
+        execute: async (params) => {
+            const client = resolveClient(instances, params);
+            if (typeof client === "string") return client;
+
+            if (!client.isConfigured) {
+                return "Home Assistant is not configured. The user needs to set plugins.homeassistant.url and plugins.homeassistant.token.";
+            }
+
+            const rawIds = params.entity_id as string | string[] | undefined;
+            const entityIds = (Array.isArray(rawIds) ? rawIds : rawIds ? [rawIds] : []).filter(Boolean);
+            if (entityIds.length === 0) return "entity_id is required.";
+
+            const invalidTime = invalidTimeParam(params);
+            if (invalidTime) return invalidTime;
+
+            const endTime = (params.end_time as string | undefined) ?? new Date().toISOString();
+            const startTime =
+                (params.start_time as string | undefined) ??
+                new Date(new Date(endTime).getTime() - 86_400_000).toISOString();
+            const maxPoints = (params.max_points as number | undefined) ?? 24;
+
+            const history = await client.getHistory(entityIds, startTime, endTime);
+            const summaries = history
+                .map((series) => summarizeHistory(series, startTime, endTime, maxPoints))
+                .filter((s): s is HAHistorySummary => s !== null);
+            return formatHistorySummaries(summaries);
+        },
+    };
+}
+
+const STATISTICS_PERIODS: HAStatisticsPeriod[] = ["hour", "day", "month"];
+const STATISTICS_DEFAULT_RANGE_MS: Record<HAStatisticsPeriod, number> = {
+    hour: 86_400_000,
+    day: 30 * 86_400_000,
+    month: 365 * 86_400_000,
+};
+
+export function createHaStatisticsToolDef(instances: HAInstanceRegistry): ToolSchema {
+    return {
+        name: "ha_statistics",
+        description:
+            "Query Home Assistant long-term statistics (recorder), kept for months or years. " +
+            "Use for energy, water and climate questions beyond the short history window " +
+            "(e.g. 'how much power did the heat pump use last month?'). " +
+            "Actions: 'list' (find statistic IDs, optionally filtered by 'pattern'), " +
+            "'get' (aggregated values for statistic_ids, by hour, day or month). " +
+            "Sum-type statistics (energy, water) report consumption per period; " +
+            "measurements report mean/min/max. Units follow the HA unit system.",
+        inputSchema: {
+            type: "object",
+            required: ["action"],
+            properties: {
+                instance: INSTANCE_PARAM,
+                action: { type: "string", description: "One of: list, get" },
+                pattern: {
+                    type: "string",
+                    description: "Glob pattern to filter statistic IDs for 'list' (e.g. sensor.*energy*)",
+                },
+                statistic_type: {
+                    type: "string",
+                    description: "For 'list': only 'mean' (measurements) or 'sum' (meters) statistics",
+                },
+                statistic_ids: {
+                    type: "array",
+                    items: { type: "string" },
+                    description: "Statistic IDs (usually entity IDs) for 'get'",
+                },
+                period: {
+                    type: "string",
+                    description: "Aggregation for 'get': hour, day (default) or month",
+                },
+                start_time: {
+                    type: "string",
+                    description: "Start time in ISO 8601 (default: 1 day / 30 days / 1 year ago for hour / day / month)",
+                },
+                end_time: { type: "string", description: "End time in ISO 8601 (default: now)" },
+            },
+        },
+        execute: async (params) => {
+            const client = resolveClient(instances, params);
+            if (typeof client === "string") return client;
+
+            if (!client.isConfigured) {
+                return "Home Assistant is not configured. The user needs to set plugins.homeassistant.url and plugins.homeassistant.token.";
+            }
+
+            const action = params.action as string;
+
+            if (action === "list") {
+                const statisticType = params.statistic_type as "mean" | "sum" | undefined;
+                const pattern = params.pattern as string | undefined;
+                let list = await client.listStatisticIds(statisticType);
+                if (pattern) list = list.filter((m) => matchesAnyPattern(m.statistic_id, [pattern]));
+                return formatStatisticMetadata(list);
+            }
+
+            if (action === "get") {
+                const ids = (params.statistic_ids as string[] | undefined) ?? [];
+                if (ids.length === 0) return "statistic_ids is required for 'get'.";
+
+                const period = (params.period as HAStatisticsPeriod | undefined) ?? "day";
+                if (!STATISTICS_PERIODS.includes(period)) {
+                    return `Invalid period "${period}". Use: ${STATISTICS_PERIODS.join(", ")}.`;
+                }
+                const invalidTime = invalidTimeParam(params);
+                if (invalidTime) return invalidTime;
+                const endTime = params.end_time as string | undefined;
+                const startTime =
+                    (params.start_time as string | undefined) ??
+                    new Date(
+                        (endTime ? new Date(endTime).getTime() : Date.now()) -
+                            STATISTICS_DEFAULT_RANGE_MS[period],
+                    ).toISOString();
+
+                const [results, metadata, haConfig] = await Promise.all([
+                    client.getStatistics(ids, startTime, endTime, period),
+                    client.listStatisticIds(),
+                    client.getHAConfig(),
+                ]);
+                return formatStatistics(
+                    results,
+                    new Map(metadata.map((m) => [m.statistic_id, m])),
+                    period,
+                    {
+                        timeZone: haConfig.time_zone,
+                        units: statisticsUnitsFromUnitSystem(haConfig.unit_system),
+                    },
+                );
+            }
+
+            return `Unknown action "${action}". Use: list, get.`;
+        },
+    };
+}
+
+export function createHaContextConfigToolDef(stateDir: string, instances: HAInstanceRegistry): ToolSchema {
     return {
         name: "ha_context_config",
         description:
             "View or modify what Home Assistant data is injected into your context. " +
             "Actions: 'get' (show current config), 'set' (replace config), " +
             "'add_watch'/'remove_watch' (adjust watched entity patterns). " +
-            "Changes take effect on the next message turn.",
+            "Each instance has its own settings. Changes take effect on the next message turn.",
         inputSchema: {
             type: "object",
             required: ["action"],
@@ -173,14 +586,18 @@ export function createHaContextConfigToolDef(
                 enabled: { type: "boolean", description: "Enable or disable context injection" },
                 max_entities: { type: "integer", description: "Max entities to include in context" },
                 group_by_area: { type: "boolean", description: "Group entities by area in context" },
+                instance: INSTANCE_PARAM,
             },
         },
         execute: async (params) => {
             const action = params.action as string;
-            const agentOverrides = await readContextConfig(stateDir);
+            const name = params.instance as string | undefined;
+            const instance = instances.resolve(name);
+            if (!instance) return instances.unknownMessage(name ?? "");
+
             const current = mergeContextConfig(
-                pluginContextConfig as Record<string, unknown> | undefined,
-                agentOverrides,
+                instanceContextOptions(instance.config),
+                await readContextConfig(stateDir, instance.name),
             );
 
             if (action === "get") {
@@ -194,7 +611,7 @@ export function createHaContextConfigToolDef(
                     maxEntities: (params.max_entities as number) ?? current.maxEntities,
                     groupByArea: (params.group_by_area as boolean) ?? current.groupByArea,
                 };
-                await writeContextConfig(stateDir, updated);
+                await writeContextConfig(stateDir, instance.name, updated);
                 return `Context config updated:\n${JSON.stringify(updated, null, 2)}`;
             }
 
@@ -204,7 +621,7 @@ export function createHaContextConfigToolDef(
                 const patterns = new Set(current.watchedEntities);
                 for (const p of toAdd) patterns.add(p);
                 const updated: ContextConfig = { ...current, watchedEntities: [...patterns] };
-                await writeContextConfig(stateDir, updated);
+                await writeContextConfig(stateDir, instance.name, updated);
                 return `Added watched patterns. Current: ${updated.watchedEntities.join(", ")}`;
             }
 
@@ -215,7 +632,7 @@ export function createHaContextConfigToolDef(
                     ...current,
                     watchedEntities: current.watchedEntities.filter((p) => !toRemove.has(p)),
                 };
-                await writeContextConfig(stateDir, updated);
+                await writeContextConfig(stateDir, instance.name, updated);
                 return `Removed watched patterns. Current: ${updated.watchedEntities.length > 0 ? updated.watchedEntities.join(", ") : "(none — context injection disabled)"}`;
             }
 
@@ -224,30 +641,89 @@ export function createHaContextConfigToolDef(
     };
 }
 
-export function createHaListenToolDef(stateDir: string, client: HAClient): ToolSchema {
+export function createHaAclExplainToolDef(stateDir: string, instances: HAInstanceRegistry): ToolSchema {
+    return {
+        name: "ha_acl_explain",
+        description:
+            "Explain why you can or can't see, watch or control an entity. " +
+            "Reports its effective tier (hidden, readable, watched or writable) and the exact pattern or " +
+            "config key behind each decision, so the user knows what to change. " +
+            "Use this when the user asks why an entity is missing or a service call was refused.",
+        inputSchema: {
+            type: "object",
+            required: ["entity_id"],
+            properties: {
+                instance: INSTANCE_PARAM,
+                entity_id: { type: "string", description: "Entity ID to explain (e.g. fan.bedroom)" },
+            },
+        },
+        execute: async (params) => {
+            const name = params.instance as string | undefined;
+            const instance = instances.resolve(name);
+            if (!instance) return instances.unknownMessage(name ?? "");
+
+            const entityId = params.entity_id as string;
+            const watched = await resolveWatchedEntities(
+                stateDir,
+                instance.name,
+                instanceContextOptions(instance.config),
+            );
+            const explanation = instance.client.explainAccess(entityId, watched);
+            let text = formatAccessExplanation(entityId, explanation);
+            if (instances.isMulti) text = `[${instance.name}] ${text}`;
+
+            if (explanation.tier !== "hidden" && instance.client.isConfigured) {
+                const state = await instance.client.getState(entityId);
+                if (!state) text += "\n- Note: this entity was not found in Home Assistant — check the entity ID.";
+            }
+            return text;
+        },
+    };
+}
+
+export function createHaListenToolDef(stateDir: string, instances: HAInstanceRegistry): ToolSchema {
     return {
         name: "ha_listen",
         description:
             "Manage Home Assistant event listeners. " +
             "Listeners monitor entity state changes and trigger agent actions automatically. " +
             "Actions:\n" +
-            "  - 'add': Create a new listener. Requires entity_id and message. " +
+            "  - 'add': Create a new listener. Requires entity_id (an ID, glob pattern or list) and message. " +
             "Set one_shot=true (default) for single-use tasks (e.g. 'when the light turns on, commit git'). " +
             "Set one_shot=false for recurring listeners (e.g. 'always notify me when the door opens'). " +
-            "Decide based on the user's intent whether this is a one-time or recurring task.\n" +
+            "Decide based on the user's intent whether this is a one-time or recurring task. " +
+            "For numeric sensors use above/below (e.g. 'freezer above -10', 'humidity below 40'); " +
+            "these fire once when the value crosses the threshold, not on every update past it. " +
+            "Set attribute to watch an attribute instead of the state (e.g. 'media_title', 'current_temperature', " +
+            "'battery_level'); to_state/from_state/above/below then apply to the attribute value. " +
+            "Set for_seconds to fire only once the condition has held that long " +
+            "(e.g. 'garage door open for 10 minutes'); a reversal in the meantime cancels it. " +
+            "For recurring listeners on noisy entities (motion sensors) set cooldown_seconds, and use " +
+            "max_fires/expires_at for 'the next 3 times' or 'until tonight'.\n" +
             "  - 'list': Show all active listeners.\n" +
-            "  - 'remove': Remove a listener by its ID.",
+            "  - 'remove': Remove a listener by its ID.\n" +
+            "  - 'history': Show recent firings, including of one-shot listeners that are gone, with whether " +
+            "the triggered agent turn succeeded. Filter by listener_id or entity_id. Use this when the user asks " +
+            "why a listener didn't notify them.",
         inputSchema: {
             type: "object",
             required: ["action"],
             properties: {
+                instance: INSTANCE_PARAM,
                 action: {
                     type: "string",
-                    description: "One of: add, list, remove",
+                    description: "One of: add, list, remove, history",
                 },
                 entity_id: {
+                    ...STRING_OR_LIST,
+                    description:
+                        "Entity to listen to (e.g. 'light.bedroom'), a glob (e.g. 'binary_sensor.*_door') " +
+                        "or a list of either. Required for 'add'. For 'history', an entity ID or glob to filter by.",
+                },
+                attribute: {
                     type: "string",
-                    description: "Entity to listen to (e.g. 'light.bedroom'). Required for 'add'.",
+                    description:
+                        "Attribute path to watch instead of the state (e.g. 'media_title'; dots reach nested values). Optional.",
                 },
                 to_state: {
                     type: "string",
@@ -259,26 +735,70 @@ export function createHaListenToolDef(stateDir: string, client: HAClient): ToolS
                     description:
                         "Only trigger when entity changes FROM this state. Optional.",
                 },
+                above: {
+                    type: "number",
+                    description: "Trigger when the numeric state rises above this value. Optional.",
+                },
+                below: {
+                    type: "number",
+                    description:
+                        "Trigger when the numeric state drops below this value. Optional. " +
+                        "With above, triggers on entering the range between them.",
+                },
+                for_seconds: {
+                    type: "number",
+                    description:
+                        "Only fire once the condition has held continuously for this many seconds " +
+                        "(e.g. 600 for 'open for 10 minutes'). Optional.",
+                },
                 message: {
                     type: "string",
                     description:
                         "Message to inject into the agent when the listener fires. " +
-                        "This becomes the agent's next task. Required for 'add'.",
+                        "This becomes the agent's next task. Required for 'add'. " +
+                        "May use placeholders filled in from the event: {{friendly_name}}, {{old_state}}, " +
+                        "{{new_state}}, {{old_value}}, {{new_value}}, {{duration}} (time in the old state), " +
+                        "{{old_last_changed}}, {{attributes.<name>}}, {{states.<entity_id>}} and " +
+                        "{{states.<entity_id>.<attribute>}} for other entities.",
                 },
                 one_shot: {
                     type: "boolean",
                     description:
-                        "If true (default), the listener is removed after firing once. " +
+                        "If true (default unless cooldown_seconds, max_fires or expires_at is set), " +
+                        "the listener is removed after firing once. " +
                         "If false, the listener stays active and fires every time the condition is met. " +
                         "Decide based on context: one-time tasks → true, recurring reactions → false.",
                 },
+                cooldown_seconds: {
+                    type: "number",
+                    description:
+                        "Minimum seconds between two fires; matches during the cooldown are ignored. Optional.",
+                },
+                max_fires: {
+                    type: "number",
+                    description: "Remove the listener after it has fired this many times. Optional.",
+                },
+                expires_at: {
+                    type: "string",
+                    description: "ISO 8601 time after which the listener is removed. Optional.",
+                },
+                delivery: DELIVERY_PARAM,
                 listener_id: {
                     type: "string",
-                    description: "Listener ID to remove. Required for 'remove'.",
+                    description: "Listener ID to remove. Required for 'remove'. For 'history', filters by listener.",
+                },
+                limit: {
+                    type: "number",
+                    description: "For 'history': number of most recent firings to show (default 20).",
                 },
             },
         },
-        execute: async (params) => {
+        execute: async (params, context) => {
+            const instanceName = (params.instance as string | undefined) || instances.defaultName;
+            const instance = instances.resolve(instanceName);
+            if (!instance) return instances.unknownMessage(instanceName);
+            const client = instance.client;
+
             if (!client.isConfigured) {
                 return "Home Assistant is not configured.";
             }
@@ -286,47 +806,128 @@ export function createHaListenToolDef(stateDir: string, client: HAClient): ToolS
             const action = params.action as string;
 
             if (action === "add") {
-                const entityId = params.entity_id as string | undefined;
+                const rawIds = params.entity_id as string | string[] | undefined;
+                const patterns = (Array.isArray(rawIds) ? rawIds : rawIds ? [rawIds] : []).filter(Boolean);
                 const message = params.message as string | undefined;
-                if (!entityId || !message) {
+                if (patterns.length === 0 || !message) {
                     return "Both entity_id and message are required for 'add'.";
                 }
 
-                // Validate entity exists
-                const entity = await client.getState(entityId);
-                if (!entity) {
-                    return `Entity \"${entityId}\" not found or is blocked by ACL. Check the entity_id.`;
+                const above = params.above as number | undefined;
+                const below = params.below as number | undefined;
+                if (above !== undefined && below !== undefined && above >= below) {
+                    return "above must be less than below (the listener fires on entering the range between them).";
+                }
+                const forSeconds = params.for_seconds as number | undefined;
+                if (forSeconds !== undefined && !(forSeconds > 0)) {
+                    return "for_seconds must be a positive number of seconds.";
+                }
+                const cooldownSeconds = params.cooldown_seconds as number | undefined;
+                if (cooldownSeconds !== undefined && !(cooldownSeconds > 0)) {
+                    return "cooldown_seconds must be a positive number of seconds.";
                 }
+                const maxFires = params.max_fires as number | undefined;
+                if (maxFires !== undefined && !(Number.isInteger(maxFires) && maxFires > 0)) {
+                    return "max_fires must be a positive whole number.";
+                }
+                const rawExpiresAt = params.expires_at as string | undefined;
+                let expiresAt: string | undefined;
+                if (rawExpiresAt) {
+                    const expires = new Date(rawExpiresAt);
+                    if (Number.isNaN(expires.getTime())) {
+                        return `Invalid expires_at "${rawExpiresAt}" — use ISO 8601 (e.g. 2025-01-31T22:00:00+01:00).`;
+                    }
+                    if (expires.getTime() <= Date.now()) {
+                        return `expires_at "${rawExpiresAt}" is in the past.`;
+                    }
+                    expiresAt = expires.toISOString();
+                }
+                // Limits describe a recurring listener, so they make one_shot default to false
+                const hasLimits = cooldownSeconds !== undefined || maxFires !== undefined || expiresAt !== undefined;
+                const oneShot = (params.one_shot as boolean | undefined) ?? !hasLimits;
+                if (oneShot && maxFires !== undefined && maxFires > 1) {
+                    return `one_shot=true removes the listener after its first fire, which contradicts max_fires=${maxFires}. Omit one_shot.`;
+                }
+
+                // Validate every ID / pattern matches at least one visible entity
+                const visible = await client.getStates();
+                const matching = visible.filter((e) => matchesAnyPattern(e.entity_id, patterns));
+                const unmatched = patterns.filter((p) => !visible.some((e) => matchesAnyPattern(e.entity_id, [p])));
+                if (unmatched.length > 0) {
+                    return (
+                        `No visible entity matches ${unmatched.map((p) => `"${p}"`).join(", ")} ` +
+                        "(not found or blocked by ACL). Check the entity_id."
+                    );
+                }
+                const templateError = validateTemplate(message, (id) => visible.some((e) => e.entity_id === id));
+                if (templateError) return templateError;
 
+                const attribute = (params.attribute as string | undefined) || undefined;
                 const listener = await addListener(stateDir, {
-                    entityId,
+                    entityId: patterns.length === 1 ? patterns[0]! : patterns,
+                    attribute,
                     toState: params.to_state as string | undefined,
                     fromState: params.from_state as string | undefined,
+                    above,
+                    below,
+                    forSeconds,
+                    cooldownSeconds,
+                    maxFires,
+                    expiresAt,
                     message,
-                    oneShot: (params.one_shot as boolean) ?? true,
+                    oneShot,
+                    instance: instance.name,
+                    delivery: deliveryFromParams(params.delivery, context?.origin),
                 });
 
-                const friendlyName =
-                    (entity.attributes?.friendly_name as string) ?? entityId;
                 const mode = listener.oneShot ? "one-shot" : "recurring";
+                const single = patterns.length === 1 && matching.length === 1 && matching[0]!.entity_id === patterns[0];
+                let entityLines: string;
+                if (single) {
+                    const entity = matching[0]!;
+                    const friendlyName = (entity.attributes?.friendly_name as string) ?? entity.entity_id;
+                    entityLines =
+                        `  Entity: ${friendlyName} (\`${entity.entity_id}\`), current state: \"${entity.state}\"\n` +
+                        (attribute
+                            ? `  Attribute: ${attribute}, current value: \"${readAttribute(entity.attributes, attribute)}\"` +
+                              (readAttribute(entity.attributes, attribute) === ""
+                                  ? " (not present now, or redacted by ACL — redacted attributes never trigger)"
+                                  : "") +
+                              "\n"
+                            : "");
+                } else {
+                    const shown = matching.slice(0, 10).map((e) => `${e.entity_id} (${e.state})`).join(", ");
+                    const more = matching.length > 10 ? `, … ${matching.length - 10} more` : "";
+                    entityLines =
+                        `  Entities: ${patterns.join(", ")} — ${matching.length} currently matching: ${shown}${more}\n` +
+                        (attribute ? `  Attribute: ${attribute}\n` : "");
+                }
                 return (
                     `✅ Listener created (${mode}):\n` +
                     `  ID: ${listener.id}\n` +
-                    `  Entity: ${friendlyName} (\`${entityId}\`), current state: \"${entity.state}\"\n` +
+                    (instances.isMulti ? `  Instance: ${instance.name}\n` : "") +
+                    entityLines +
                     (listener.toState ? `  Trigger when → \"${listener.toState}\"\n` : "") +
                     (listener.fromState ? `  Trigger from \"${listener.fromState}\" →\n` : "") +
+                    (describeThreshold(listener) ? `  Trigger when value crosses ${describeThreshold(listener)}\n` : "") +
+                    (listener.forSeconds
+                        ? `  Hold: must last ${formatDuration(listener.forSeconds * 1000)} before firing\n`
+                        : "") +
+                    (describeListenerBudget(listener) ? `  Limits: ${describeListenerBudget(listener)}\n` : "") +
+                    (listener.delivery ? `  Delivery: ${describeDelivery(listener.delivery)}\n` : "") +
                     `  Message: ${listener.message}`
                 );
             }
 
             if (action === "list") {
+                await removeExpiredListeners(stateDir);
                 const listeners = await loadListeners(stateDir);
                 if (listeners.length === 0) {
                     return "No active listeners.";
                 }
                 return (
                     `**${listeners.length} active listener(s):**\n` +
-                    listeners.map(formatListener).join("\n")
+                    listeners.map((l) => formatListener(l)).join("\n")
                 );
             }
 
@@ -339,7 +940,187 @@ export function createHaListenToolDef(stateDir: string, client: HAClient): ToolS
                     : `Listener \"${id}\" not found.`;
             }
 
-            return `Unknown action \"${action}\". Use: add, list, remove.`;
+            if (action === "history") {
+                const entityFilter = params.entity_id;
+                const records = await queryListenerHistory(stateDir, {
+                    listenerId: params.listener_id as string | undefined,
+                    entityId: typeof entityFilter === "string" ? entityFilter : undefined,
+                    instance: params.instance as string | undefined,
+                    limit: params.limit as number | undefined,
+                });
+                if (records.length === 0) {
+                    return "No listener firings recorded.";
+                }
+                return `**${records.length} recent listener firing(s):**\n` + records.map(formatListenerFire).join("\n");
+            }
+
+            return `Unknown action \"${action}\". Use: add, list, remove, history.`;
+        },
+    };
+}
+
+// ---- Tool: ha_schedule ----
+
+export function createHaScheduleToolDef(stateDir: string, instances: HAInstanceRegistry): ToolSchema {
+    return {
+        name: "ha_schedule",
+        description:
+            "Manage time-based triggers that start an agent turn, the time counterpart of ha_listen. " +
+            "Times use Home Assistant's time zone. Actions:\n" +
+            "  - 'add': Create a schedule with a message and exactly one of: cron (e.g. '30 7 * * 1-5' for " +
+            "weekdays at 7:30), at (a one-off time, e.g. '2025-01-31T07:30'), or sun_event ('sunrise' or " +
+            "'sunset') with an optional offset_minutes (e.g. 30 for '30 minutes after sunset', -15 for before). " +
+            "Cron and sun schedules repeat unless one_shot=true.\n" +
+            "  - 'list': Show all schedules with their next run.\n" +
+            "  - 'remove': Remove a schedule by its ID.",
+        inputSchema: {
+            type: "object",
+            required: ["action"],
+            properties: {
+                instance: INSTANCE_PARAM,
+                action: {
+                    type: "string",
+                    description: "One of: add, list, remove",
+                },
+                cron: {
+                    type: "string",
+                    description:
+                        "5-field cron expression (minute hour day-of-month month day-of-week), " +
+                        "e.g. '0 8 * * *' or '30 7 * * mon-fri'.",
+                },
+                at: {
+                    type: "string",
+                    description:
+                        "One-off time, ISO 8601. Without an offset it is local time in HA's time zone.",
+                },
+                sun_event: {
+                    type: "string",
+                    enum: ["sunrise", "sunset"],
+                    description: "Run daily relative to sunrise or sunset (uses sun.sun).",
+                },
+                offset_minutes: {
+                    type: "number",
+                    description: "Minutes after (positive) or before (negative) sun_event. Default 0.",
+                },
+                message: {
+                    type: "string",
+                    description:
+                        "Message to inject into the agent when the schedule runs. " +
+                        "This becomes the agent's next task. Required for 'add'.",
+                },
+                one_shot: {
+                    type: "boolean",
+                    description: "Remove a cron or sun schedule after its first run. Default false.",
+                },
+                delivery: DELIVERY_PARAM,
+                schedule_id: {
+                    type: "string",
+                    description: "Schedule ID to remove. Required for 'remove'.",
+                },
+            },
+        },
+        execute: async (params, context) => {
+            const instanceName = (params.instance as string | undefined) || instances.defaultName;
+            const instance = instances.resolve(instanceName);
+            if (!instance) return instances.unknownMessage(instanceName);
+            const client = instance.client;
+
+            if (!client.isConfigured) {
+                return "Home Assistant is not configured.";
+            }
+
+            const action = params.action as string;
+
+            if (action === "add") {
+                const message = params.message as string | undefined;
+                if (!message) return "message is required for 'add'.";
+
+                const cron = (params.cron as string | undefined) || undefined;
+                const rawAt = (params.at as string | undefined) || undefined;
+                const sunEvent = (params.sun_event as SunEvent | undefined) || undefined;
+                const kinds = [cron, rawAt, sunEvent].filter(Boolean).length;
+                if (kinds !== 1) {
+                    return "Set exactly one of cron, at or sun_event for 'add'.";
+                }
+                if (sunEvent && sunEvent !== "sunrise" && sunEvent !== "sunset") {
+                    return `Invalid sun_event "${sunEvent}". Use "sunrise" or "sunset".`;
+                }
+                if (cron) {
+                    try {
+                        parseCron(cron);
+                    } catch (err) {
+                        return (err as Error).message;
+                    }
+                }
+
+                const env = await resolveScheduleEnv(client, Boolean(sunEvent));
+                if (sunEvent && !env.sun) {
+                    return "sun.sun is not available (missing, or blocked by ACL), so sun-relative schedules can't be used.";
+                }
+
+                let at: string | undefined;
+                if (rawAt) {
+                    const t = parseZonedTime(rawAt, env.timeZone);
+                    if (t === null) {
+                        return `Invalid at "${rawAt}" — use ISO 8601 (e.g. 2025-01-31T07:30).`;
+                    }
+                    at = new Date(t).toISOString();
+                }
+
+                const offsetMinutes = sunEvent ? ((params.offset_minutes as number | undefined) ?? 0) : undefined;
+                const trigger = { cron, at, sunEvent, offsetMinutes };
+                const next = computeNextRun(trigger, Date.now(), env);
+                if (next === null) {
+                    return at
+                        ? `at "${rawAt}" is in the past (${formatZonedTime(new Date(at).getTime(), env.timeZone)} ${env.timeZone}).`
+                        : `Cron expression "${cron}" never matches.`;
+                }
+
+                const schedule = await addSchedule(stateDir, {
+                    ...trigger,
+                    message,
+                    oneShot: Boolean(at) || ((params.one_shot as boolean | undefined) ?? false),
+                    nextRunAt: new Date(next).toISOString(),
+                    instance: instance.name,
+                    delivery: deliveryFromParams(params.delivery, context?.origin),
+                });
+                return (
+                    `✅ Schedule created (${schedule.oneShot ? "one-shot" : "recurring"}):\n` +
+                    `  ID: ${schedule.id}\n` +
+                    (instances.isMulti ? `  Instance: ${instance.name}\n` : "") +
+                    `  When: ${describeScheduleTrigger(schedule, env.timeZone)}\n` +
+                    `  Next run: ${formatZonedTime(next, env.timeZone)} (${env.timeZone})\n` +
+                    (schedule.delivery ? `  Delivery: ${describeDelivery(schedule.delivery)}\n` : "") +
+                    `  Message: ${schedule.message}`
+                );
+            }
+
+            if (action === "list") {
+                const schedules = await loadSchedules(stateDir);
+                if (schedules.length === 0) {
+                    return "No schedules.";
+                }
+                const timeZones = new Map<string, string>();
+                const lines: string[] = [];
+                for (const s of schedules) {
+                    const owner = instances.resolve(s.instance ?? instances.defaultName);
+                    const key = owner?.name ?? "";
+                    if (owner && !timeZones.has(key)) {
+                        timeZones.set(key, (await resolveScheduleEnv(owner.client, false)).timeZone);
+                    }
+                    lines.push(formatSchedule(s, timeZones.get(key)));
+                }
+                return `**${schedules.length} schedule(s):**\n` + lines.join("\n");
+            }
+
+            if (action === "remove") {
+                const id = params.schedule_id as string | undefined;
+                if (!id) return "schedule_id is required for 'remove'.";
+                const removed = await removeSchedule(stateDir, id);
+                return removed ? `✅ Schedule ${id} removed.` : `Schedule "${id}" not found.`;
+            }
+
+            return `Unknown action "${action}". Use: add, list, remove.`;
         },
     };
 }
@@ -0,0 +1,84 @@
+/**
+ * Unit tests for value policies on service data.
+ */
+
+import { describe, it, expect } from "vitest";
+import { applyValuePolicies, type ValuePolicy } from "./value-policy.js";
+import { HAClient } from "./ha-client.js";
+
+const policies: ValuePolicy[] = [
+    { service: "climate.set_temperature", field: "temperature", min: 16, max: 26, action: "clamp" },
+    { service: "climate.set_hvac_mode", field: "hvac_mode", allowed: ["heat", "off"] },
+    { service: "media_player.*", field: "volume_level", max: 0.5 },
+    { service: "media_player.*", entities: ["media_player.nursery"], field: "volume_level", max: 0.2 },
+];
+
+describe("applyValuePolicies", () => {
+    it("passes data through when no policy matches", () => {
+        const r = applyValuePolicies(policies, "light", "turn_on", ["light.a"], { brightness_pct: 100 });
+        expect(r).toEqual({ allowed: ["light.a"], refused: [], data: { brightness_pct: 100 }, adjustments: [] });
+    });
+
+    it("clamps numeric values", () => {
+        const r = applyValuePolicies(policies, "climate", "set_temperature", ["climate.living"], { temperature: 35 });
+        expect(r.allowed).toEqual(["climate.living"]);
+        expect(r.data).toEqual({ temperature: 26 });
+        expect(r.adjustments).toEqual(["temperature 35 → 26 (valuePolicies max 26)"]);
+    });
+
+    it("clamps numeric strings", () => {
+        const r = applyValuePolicies(policies, "climate", "set_temperature", ["climate.living"], { temperature: "10" });
+        expect(r.data).toEqual({ temperature: 16 });
+    });
+
+    it("rejects values outside the allowed set", () => {
+        const r = applyValuePolicies(policies, "climate", "set_hvac_mode", ["climate.living"], { hvac_mode: "cool" });
+        expect(r.allowed).toEqual([]);
+        expect(r.refused).toEqual([
+            { target: "climate.living", reason: 'hvac_mode "cool" is not one of heat, off (valuePolicies)' },
+        ]);
+    });
+
+    it("rejects per entity using entity-scoped policies", () => {
+        const r = applyValuePolicies(
+            policies,
+            "media_player",
+            "volume_set",
+            ["media_player.kitchen", "media_player.nursery"],
+            { volume_level: 0.4 },
+        );
+        expect(r.allowed).toEqual(["media_player.kitchen"]);
+        expect(r.refused[0]).toEqual({
+            target: "media_player.nursery",
+            reason: "volume_level 0.4 is above the maximum 0.2 (valuePolicies)",
+        });
+    });
+
+    it("rejects non-numeric values for numeric bounds", () => {
+        const r = applyValuePolicies(policies, "media_player", "volume_set", ["media_player.kitchen"], {
+            volume_level: "loud",
+        });
+        expect(r.refused[0]!.reason).toBe('volume_level "loud" is not a number (valuePolicies)');
+    });
+});
+
+describe("HAClient value policies", () => {
+    it("reports violations before calling HA", async () => {
+        const client = new HAClient({
+            url: "http://fake",
+            token: "fake",
+            blockedEntities: [],
+            writableDomains: ["media_player"],
+            valuePolicies: policies,
+        });
+        const result = await client.callService(
+            "media_player",
+            "volume_set",
+            "media_player.kitchen",
+            { volume_level: 1 },
+        );
+        expect(result.success).toBe(false);
+        expect(result.outcome).toBe("refused");
+        expect(result.message).toContain("volume_level 1 is above the maximum 0.5 (valuePolicies)");
+    });
+});
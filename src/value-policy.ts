@@ -0,0 +1,108 @@
+/**
+ * Value policies — bounds on service data.
+ *
+ * A policy constrains one data field of the services (and optionally the
+ * entities) it matches, e.g. `climate.set_temperature` temperature within
+ * 16–26, `media_player.volume_set` volume_level at most 0.5, or only some
+ * HVAC modes. Out-of-range values are either clamped or rejected. Clamping
+ * is only possible for numeric bounds; a value outside `allowed` is always
+ * rejected.
+ */
+
+import { matchesAnyPattern } from "./ha-client.js";
+
+// ---- Types ----
+
+export type ValuePolicy = {
+    /** Glob on "domain.service" (e.g. "climate.set_temperature", "media_player.*") */
+    service: string;
+    /** Entity glob patterns the policy applies to (omit = all entities) */
+    entities?: string[];
+    /** Service data key to constrain (e.g. "temperature", "volume_level", "hvac_mode") */
+    field: string;
+    min?: number;
+    max?: number;
+    /** Permitted values (e.g. ["heat", "off"]) */
+    allowed?: (string | number)[];
+    /** What to do with a numeric value out of bounds (default "reject") */
+    action?: "clamp" | "reject";
+};
+
+export type ValuePolicyResult = {
+    /** Entities whose policies accept the (possibly clamped) data */
+    allowed: string[];
+    refused: { target: string; reason: string }[];
+    /** Data with clamped values applied */
+    data: Record<string, unknown>;
+    /** Human-readable clamping notes, e.g. "temperature 35 → 26 (valuePolicies max 26)" */
+    adjustments: string[];
+};
+
+// ---- Evaluation ----
+
+function toNumber(value: unknown): number | null {
+    if (typeof value === "number") return Number.isFinite(value) ? value : null;
+    if (typeof value === "string" && value.trim() !== "" && Number.isFinite(Number(value))) return Number(value);
+    return null;
+}
+
+/** Describe why `value` violates the policy, or null if it complies. */
+function violation(policy: ValuePolicy, value: unknown): string | null {
+    const name = `${policy.field} ${JSON.stringify(value)}`;
+    if (policy.allowed && !policy.allowed.some((v) => String(v) === String(value))) {
+        return `${name} is not one of ${policy.allowed.join(", ")}`;
+    }
+    if (policy.min === undefined && policy.max === undefined) return null;
+    const num = toNumber(value);
+    if (num === null) return `${name} is not a number`;
+    if (policy.min !== undefined && num < policy.min) return `${name} is below the minimum ${policy.min}`;
+    if (policy.max !== undefined && num > policy.max) return `${name} is above the maximum ${policy.max}`;
+    return null;
+}
+
+/**
+ * Check service data against the policies of every target entity. All
+ * targets share one payload, so clamps from any entity's policies apply to
+ * the whole call; entities whose policies reject the value are refused.
+ */
+export function applyValuePolicies(
+    policies: ValuePolicy[],
+    domain: string,
+    service: string,
+    entityIds: string[],
+    data: Record<string, unknown>,
+): ValuePolicyResult {
+    const fullName = `${domain}.${service}`;
+    const result: ValuePolicyResult = { allowed: [], refused: [], data: { ...data }, adjustments: [] };
+    const matching = policies.filter(
+        (p) => matchesAnyPattern(fullName, [p.service]) && p.field in data,
+    );
+    if (matching.length === 0) return { ...result, allowed: entityIds };
+
+    const appliesTo = (p: ValuePolicy, id: string) =>
+        !p.entities || p.entities.length === 0 || matchesAnyPattern(id, p.entities);
+
+    // Clamp first, so rejection is judged on the value that would be sent
+    for (const policy of matching) {
+        if (policy.action !== "clamp" || !entityIds.some((id) => appliesTo(policy, id))) continue;
+        const value = result.data[policy.field];
+        const num = toNumber(value);
+        if (num === null) continue;
+        const clamped = Math.min(policy.max ?? Infinity, Math.max(policy.min ?? -Infinity, num));
+        if (clamped !== num) {
+            result.data[policy.field] = clamped;
+            const bound = clamped === policy.max ? `max ${policy.max}` : `min ${policy.min}`;
+            result.adjustments.push(`${policy.field} ${String(value)} → ${clamped} (valuePolicies ${bound})`);
+        }
+    }
+
+    for (const id of entityIds) {
+        const reason = matching
+            .filter((p) => appliesTo(p, id))
+            .map((p) => violation(p, result.data[p.field]))
+            .find((v) => v !== null);
+        if (reason) result.refused.push({ target: id, reason: `${reason} (valuePolicies)` });
+        else result.allowed.push(id);
+    }
+    return result;
+}